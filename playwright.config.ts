@@ -33,6 +33,8 @@ export default defineConfig({
   reporter: [
     ['html', { open: 'never' }],
     ['list', { printSteps: true }],
+    // Репортеры фреймворка из ключа конфигурации `reporters` (JUnit, Allure, HTML и собственные)
+    ['./src/reporters/PlaywrightReporterAdapter.ts'],
   ],
 
   // Использовать глобальную настройку для всех тестов
@@ -64,11 +64,14 @@ export class BaseApiClient {
   /**
    * Create a new BaseApiClient
    * @param request Playwright APIRequestContext
-   * @param baseUrl Base URL for all requests
+   * @param baseUrl Base URL for all requests (default: API URL of the current environment)
    */
-  constructor(request: APIRequestContext, baseUrl: string) {
+  constructor(request: APIRequestContext, baseUrl?: string) {
+    const config = ConfigManager.getInstance();
+    const actualBaseUrl = baseUrl || config.getCurrentEnvironment()?.apiUrl || config.get('apiBaseUrl') || '';
+
     this.request = request;
-    this.baseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+    this.baseUrl = actualBaseUrl.endsWith('/') ? actualBaseUrl.slice(0, -1) : actualBaseUrl;
     this.logger = new Logger(this.constructor.name);
 
     // Set default headers
@@ -78,7 +81,6 @@ export class BaseApiClient {
     };
 
     // Add any headers from config
-    const config = ConfigManager.getInstance();
     const apiHeaders = config.getConfig<Record<string, string>>('api.headers', {});
     this.defaultHeaders = { ...this.defaultHeaders, ...apiHeaders };
   }
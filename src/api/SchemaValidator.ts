@@ -4,7 +4,7 @@
  */
 import Ajv, { ValidateFunction, ErrorObject, Options } from 'ajv';
 import addFormats from 'ajv-formats';
-import { Logger } from '@utils/Logger';
+import { Logger } from '../utils/Logger';
 
 export interface ValidationResult {
   valid: boolean;
@@ -0,0 +1,254 @@
+#!/usr/bin/env node
+/**
+ * Command line interface
+ *
+ *   ptm config print [--env <name>] [--overlays <a,b>] [--key <path>] [--json]
+ *   ptm config validate [--env <name>] [--overlays <a,b>] [--all]
+ *
+ * The CLI and the modules it loads use relative imports: tsc does not rewrite path aliases,
+ * and the compiled CLI runs under plain Node.js.
+ */
+import path from 'path';
+import { ConfigManager, ConfigSource } from '../core/ConfigManager';
+import { ConfigError } from '../core/ConfigSchema';
+import { isSecretReference } from '../core/Secrets';
+import { SecretMasker } from '../utils/SecretMasker';
+
+/**
+ * Function writing one line of output
+ */
+export type CliWriter = (line: string) => void;
+
+interface ParsedArgs {
+  positionals: string[];
+  options: Record<string, string | boolean>;
+}
+
+// Keys whose values are masked even when they are not registered secrets
+const SENSITIVE_KEY = /password|passwd|secret|token|authorization|api[-_]?key|cookie|credentials/i;
+
+const USAGE = [
+  'Usage:',
+  '  ptm config print [--env <name>] [--overlays <a,b>] [--key <path>] [--json]',
+  '      Print the resolved configuration and where each value came from',
+  '  ptm config validate [--env <name>] [--overlays <a,b>] [--all]',
+  '      Validate the configuration (of every environment with --all)'
+];
+
+/**
+ * Run a CLI command
+ * @param argv Arguments without the node executable and script path
+ * @param out Writer for regular output
+ * @param err Writer for errors
+ * @returns Process exit code
+ */
+export function runCli(
+  argv: string[],
+  out: CliWriter = line => process.stdout.write(`${line}\n`),
+  err: CliWriter = line => process.stderr.write(`${line}\n`)
+): number {
+  const args = parseArgs(argv);
+  const [group, command] = args.positionals;
+
+  if (group !== 'config' || (command !== 'print' && command !== 'validate')) {
+    (args.options.help ? out : err)(USAGE.join('\n'));
+    return args.options.help ? 0 : 2;
+  }
+
+  try {
+    const config = loadConfig(args.options);
+    return command === 'print' ? printConfig(config, args.options, out, err) : validateConfig(config, args.options, out);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      err(error.message);
+      return 1;
+    }
+    err(SecretMasker.getInstance().mask(error instanceof Error ? error.message : String(error)));
+    return 1;
+  }
+}
+
+/**
+ * Load the configuration for the environment and overlays selected on the command line
+ */
+function loadConfig(options: Record<string, string | boolean>): ConfigManager {
+  if (typeof options.env === 'string') {
+    // The environment is chosen before the first load, so config/<env>.* and .env.<env> apply
+    process.env.TEST_ENV = options.env;
+  }
+  if (typeof options.overlays === 'string') {
+    process.env.TEST_OVERLAYS = options.overlays;
+  }
+
+  const config = ConfigManager.getInstance();
+  if (typeof options.env === 'string' && config.getEnvironmentName() !== options.env) {
+    if (!config.setEnvironment(options.env)) {
+      throw new Error(`Unknown environment '${options.env}'`);
+    }
+  }
+  return config;
+}
+
+/**
+ * Print resolved values with their sources
+ */
+function printConfig(
+  config: ConfigManager,
+  options: Record<string, string | boolean>,
+  out: CliWriter,
+  err: CliWriter
+): number {
+  const key = typeof options.key === 'string' ? options.key : undefined;
+  const environment = config.getCurrentEnvironment();
+  const resolved: Record<string, unknown> = { ...config.getConfig() };
+  if (environment) {
+    resolved.environment = environment;
+  }
+
+  const value = key === undefined ? resolved : getPath(resolved, key);
+  if (value === undefined) {
+    err(`Key '${key}' is not set`);
+    return 1;
+  }
+
+  const sources = config.getSources();
+  const entries = flatten(value, key ?? '').map(([entryKey, entryValue]) => ({
+    key: entryKey,
+    value: maskValue(entryKey, entryValue),
+    source: describeSource(sources, entryKey)
+  }));
+
+  if (options.json) {
+    out(JSON.stringify(Object.fromEntries(entries.map(entry => [entry.key, { value: entry.value, source: entry.source }])), null, 2));
+    return 0;
+  }
+
+  const overlays = config.getEnvironmentOverlays();
+  out(`Environment: ${config.getEnvironmentName()}${overlays.length > 0 ? ` (overlays: ${overlays.join(', ')})` : ''}`);
+  const width = Math.max(...entries.map(entry => `${entry.key} = ${JSON.stringify(entry.value)}`.length));
+  for (const entry of entries) {
+    out(`${`${entry.key} = ${JSON.stringify(entry.value)}`.padEnd(width)}  # ${entry.source}`);
+  }
+  return 0;
+}
+
+/**
+ * Validate the configuration, optionally of every environment
+ */
+function validateConfig(config: ConfigManager, options: Record<string, string | boolean>, out: CliWriter): number {
+  const names = options.all
+    ? config.getEnvironments().map(environment => environment.name)
+    : [config.getEnvironmentName()];
+
+  const failures: string[] = [];
+  for (const name of names) {
+    try {
+      if (name !== config.getEnvironmentName()) {
+        config.setEnvironment(name);
+      }
+      // Reading the credentials resolves them, which checks every secret reference
+      void Object.values(config.getCurrentEnvironment()?.credentials ?? {});
+      out(`✓ ${name}`);
+    } catch (error) {
+      failures.push(name);
+      const message = error instanceof Error ? error.message : String(error);
+      out(`✗ ${name}\n${SecretMasker.getInstance().mask(message)}`);
+    }
+  }
+
+  out(failures.length === 0
+    ? 'Configuration is valid'
+    : `Configuration is invalid for: ${failures.join(', ')}`);
+  return failures.length === 0 ? 0 : 1;
+}
+
+/**
+ * Describe the source of a printed value, e.g. `base: config/base.json` or
+ * `environments: config/environments.yaml (inherited from dev)`
+ * Values inside an object set as a whole report the source of that object.
+ * @param sources Sources of all resolved values, from ConfigManager.getSources()
+ * @param key Dotted path of the value
+ */
+function describeSource(sources: Record<string, ConfigSource>, key: string): string {
+  if (key === 'env') {
+    return 'current environment';
+  }
+
+  const parts = key.split('.');
+  const source = parts.map((_, index) => sources[parts.slice(0, parts.length - index).join('.')]).find(Boolean);
+  if (!source) {
+    return 'unknown';
+  }
+  const origin = path.isAbsolute(source.origin) ? path.relative(process.cwd(), source.origin) : source.origin;
+  // Defaults and plain overrides name no origin of their own
+  const label = origin === source.layer ? origin : `${source.layer}: ${origin}`;
+  return source.definition ? `${label} (${source.definition})` : label;
+}
+
+/**
+ * Mask secret references, registered secrets and values of sensitive keys
+ */
+function maskValue(key: string, value: unknown): unknown {
+  if (isSecretReference(value)) {
+    return `${SecretMasker.MASK} (${value})`;
+  }
+  if (typeof value === 'string' && SENSITIVE_KEY.test(key)) {
+    return SecretMasker.MASK;
+  }
+  return SecretMasker.getInstance().maskValue(value);
+}
+
+/**
+ * List leaf values as [dotted path, value] pairs
+ */
+function flatten(value: unknown, prefix: string): Array<[string, unknown]> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value) || Object.keys(value).length === 0) {
+    return [[prefix, value]];
+  }
+  return Object.keys(value).flatMap(key => {
+    // Credentials are read without their getters, so secret references stay unresolved
+    const descriptor = Object.getOwnPropertyDescriptor(value, key);
+    const item: unknown = descriptor && 'value' in descriptor ? descriptor.value : undefined;
+    return flatten(descriptor?.get ? '<secret>' : item, prefix ? `${prefix}.${key}` : key);
+  });
+}
+
+/**
+ * Get a value by dotted path
+ */
+function getPath(value: Record<string, unknown>, key: string): unknown {
+  return key.split('.').reduce<unknown>(
+    (current, part) => (typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[part] : undefined),
+    value
+  );
+}
+
+/**
+ * Parse `--name value`, `--name=value` and `--flag` options
+ */
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positionals: [], options: {} };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith('--')) {
+      parsed.positionals.push(arg);
+      continue;
+    }
+
+    const [name, inline] = arg.substring(2).split(/=(.*)/s, 2);
+    if (inline !== undefined) {
+      parsed.options[name] = inline;
+    } else if (index + 1 < argv.length && !argv[index + 1].startsWith('--')) {
+      parsed.options[name] = argv[++index];
+    } else {
+      parsed.options[name] = true;
+    }
+  }
+
+  return parsed;
+}
+
+if (require.main === module) {
+  process.exitCode = runCli(process.argv.slice(2));
+}
@@ -1,129 +1,44 @@
 /**
  * Конфигурация тестового фреймворка
+ *
+ * Конфигурация разрешается единым ConfigManager из @core;
+ * модуль сохранён для обратной совместимости
  */
+import fs from 'fs';
+import path from 'path';
+import { ConfigManager } from '@core/ConfigManager';
+import { ConfigError } from '@core/ConfigSchema';
+import { Logger } from '@utils/Logger';
 
-// Интерфейс для глобальной конфигурации
-export interface GlobalConfig {
-  baseUrl?: string;
-  apiBaseUrl?: string;
-  timeout?: number;
-  retries?: number;
-  headless?: boolean;
-  browserType?: 'chromium' | 'firefox' | 'webkit';
-  viewport?: { width: number; height: number };
-  slowMo?: number;
-  screenshotsPath?: string;
-  videosPath?: string;
-  tracesPath?: string;
-  reportPath?: string;
-  logLevel?: 'debug' | 'info' | 'warn' | 'error';
-  env?: 'development' | 'staging' | 'production' | 'test';
-}
-
-// Класс для управления конфигурацией
-export class ConfigManager {
-  private static instance: ConfigManager;
-  private config: GlobalConfig = {};
-
-  private constructor() {
-    // Приватный конструктор для синглтона
-    this.loadDefaultConfig();
-  }
-
-  // Получение экземпляра синглтона
-  public static getInstance(): ConfigManager {
-    if (!ConfigManager.instance) {
-      ConfigManager.instance = new ConfigManager();
-    }
-    return ConfigManager.instance;
-  }
-
-  // Загрузка конфигурации по умолчанию
-  private loadDefaultConfig(): void {
-    this.config = {
-      timeout: 30000,
-      retries: 2,
-      headless: process.env.CI === 'true',
-      browserType: 'chromium',
-      viewport: { width: 1280, height: 720 },
-      logLevel: 'info',
-      env: (process.env.TEST_ENV as GlobalConfig['env']) || 'development',
-    };
-
-    // Загрузка из переменных окружения
-    if (process.env.BASE_URL) {
-      this.config.baseUrl = process.env.BASE_URL;
-    }
-
-    if (process.env.API_BASE_URL) {
-      this.config.apiBaseUrl = process.env.API_BASE_URL;
-    }
-
-    if (process.env.TIMEOUT) {
-      this.config.timeout = parseInt(process.env.TIMEOUT, 10);
-    }
-
-    if (process.env.RETRIES) {
-      this.config.retries = parseInt(process.env.RETRIES, 10);
-    }
-
-    if (process.env.HEADLESS) {
-      this.config.headless = process.env.HEADLESS === 'true';
-    }
-
-    if (process.env.BROWSER_TYPE) {
-      this.config.browserType = process.env.BROWSER_TYPE as GlobalConfig['browserType'];
-    }
-
-    if (process.env.LOG_LEVEL) {
-      this.config.logLevel = process.env.LOG_LEVEL as GlobalConfig['logLevel'];
-    }
-  }
-
-  // Получение всей конфигурации
-  public getConfig(): GlobalConfig {
-    return { ...this.config };
-  }
-
-  // Получение конкретного параметра конфигурации
-  public get<K extends keyof GlobalConfig>(key: K): GlobalConfig[K] | undefined {
-    return this.config[key];
-  }
-
-  // Установка конкретного параметра конфигурации
-  public set<K extends keyof GlobalConfig>(key: K, value: GlobalConfig[K]): void {
-    this.config[key] = value;
-  }
-
-  // Обновление нескольких параметров конфигурации
-  public update(partialConfig: Partial<GlobalConfig>): void {
-    this.config = {
-      ...this.config,
-      ...partialConfig,
-    };
-  }
-
-  // Сброс конфигурации к значениям по умолчанию
-  public reset(): void {
-    this.loadDefaultConfig();
-  }
-}
+export { ConfigManager } from '@core/ConfigManager';
+export type { ConfigSource, ConfigLayerName } from '@core/ConfigManager';
+export type { GlobalConfig } from '@core/types';
 
 // Экспорт экземпляра конфигурации для использования в других модулях
 export const config = ConfigManager.getInstance();
 
-// Функция для загрузки конфигурации из файла
+const logger = new Logger('Config');
+
+/**
+ * Загрузка конфигурации из JSON-файла; значения применяются как программные переопределения
+ * @param filePath Путь к файлу относительно рабочего каталога
+ * @throws ConfigError, если файл не удаётся прочитать или его значения некорректны
+ */
 export async function loadConfigFromFile(filePath: string): Promise<void> {
+  const resolved = path.resolve(process.cwd(), filePath);
+  logger.info(`Loading config from file: ${filePath}`);
+
+  let loadedConfig: unknown;
   try {
-    // В реальном коде здесь будет загрузка из файла
-    // Например, с использованием fs.promises.readFile и JSON.parse
-    
-    // Заглушка для примера
-    console.info(`Loading config from file: ${filePath}`);
-    
-    // Обновление конфигурации
-    // config.update(loadedConfig);
+    loadedConfig = JSON.parse(await fs.promises.readFile(resolved, 'utf8'));
   } catch (error) {
-    console.error(`Failed to load config from file: ${filePath}`, error);
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError([{ source: filePath, path: '', message: `could not be read: ${reason}` }]);
   }
+  if (typeof loadedConfig !== 'object' || loadedConfig === null || Array.isArray(loadedConfig)) {
+    throw new ConfigError([{ source: filePath, path: '', message: 'must contain an object' }]);
+  }
+
+  // Обновление конфигурации (источником значений указывается файл)
+  config.update(loadedConfig as Record<string, unknown>, resolved);
 }
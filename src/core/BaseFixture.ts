@@ -2,6 +2,7 @@
  * Base Fixture class
  * Provides test data management and fixture functionality
  */
+import fs from 'fs';
 import { TestConfig } from './types';
 
 export class BaseFixture {
@@ -60,6 +61,31 @@ export class BaseFixture {
     }
   }
 
+  /**
+   * Load a list of data rows from a file
+   * Supports JSON files holding an array (or an object with a `rows` array) and CSV files
+   * with a header line. CSV values are kept as strings.
+   * @param filePath Path to data file
+   */
+  async loadRows(filePath: string): Promise<Record<string, unknown>[]> {
+    const content = await fs.promises.readFile(filePath, 'utf8');
+
+    if (filePath.endsWith('.csv')) {
+      return parseCsv(content);
+    }
+
+    if (filePath.endsWith('.json')) {
+      const data: unknown = JSON.parse(content);
+      const rows: unknown = Array.isArray(data) ? data : (data as { rows?: unknown })?.rows;
+      if (!Array.isArray(rows)) {
+        throw new Error(`Fixture file ${filePath} must contain an array of rows or an object with a "rows" array`);
+      }
+      return rows as Record<string, unknown>[];
+    }
+
+    throw new Error(`Unsupported fixture file type: ${filePath}`);
+  }
+
   /**
    * Get all fixture data
    */
@@ -88,3 +114,62 @@ export class BaseFixture {
     // To be implemented by subclasses
   }
 }
+
+/**
+ * Parse CSV content with a header line into records
+ * Supports quoted fields with commas, line breaks and escaped ("") quotes.
+ */
+function parseCsv(content: string): Record<string, string>[] {
+  const lines: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      lines.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    lines.push(row);
+  }
+
+  const [header, ...records] = lines.filter(line => line.some(value => value.trim() !== ''));
+  if (!header) {
+    return [];
+  }
+
+  const keys = header.map(key => key.trim());
+  return records.map(values =>
+    keys.reduce<Record<string, string>>((record, key, index) => {
+      record[key] = values[index] ?? '';
+      return record;
+    }, {})
+  );
+}
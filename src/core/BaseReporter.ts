@@ -2,7 +2,11 @@
  * Base Reporter abstract class
  * Provides core functionality for all reporter implementations
  */
-import { TestResult, ReporterOptions } from './types';
+import { Attachment, TestAnnotation, TestResult, ReporterOptions, TestStep } from './types';
+import { DEFAULT_REPORT_DIR, FAILURE_STATUSES, TestStatus } from './constants';
+import { ConfigManager } from './ConfigManager';
+import { FailureCluster, clusterFailures } from './FailureClusters';
+import { SecretMasker } from '@utils/SecretMasker';
 
 export abstract class BaseReporter {
   protected options: ReporterOptions;
@@ -14,7 +18,7 @@ export abstract class BaseReporter {
    */
   constructor(options: ReporterOptions = {}) {
     this.options = {
-      outputDir: './reports',
+      outputDir: ConfigManager.getInstance().getConfig<string>('reportPath', DEFAULT_REPORT_DIR),
       attachments: true,
       screenshots: true,
       videos: true,
@@ -39,8 +43,10 @@ export abstract class BaseReporter {
 
   /**
    * Called when a test starts
+   * @param testName Test name
+   * @param _suiteName Suite the test belongs to, when suites run at the same time
    */
-  onTestStart(testName: string): void {
+  onTestStart(testName: string, _suiteName?: string): void {
     // To be implemented by subclasses
   }
 
@@ -48,7 +54,8 @@ export abstract class BaseReporter {
    * Called when a test ends
    */
   onTestEnd(result: TestResult): void {
-    this.results.push(result);
+    // Reports keep a copy with resolved secrets masked
+    this.results.push(SecretMasker.getInstance().maskValue(result));
     // To be implemented by subclasses
   }
 
@@ -73,14 +80,143 @@ export abstract class BaseReporter {
 
   /**
    * Get summary statistics
+   * Failures of quarantined tests are counted as quarantined, not as failed.
    */
-  getSummary(): { total: number; passed: number; failed: number; skipped: number; duration: number } {
+  getSummary(): {
+    total: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    flaky: number;
+    quarantined: number;
+    duration: number;
+  } {
     const total = this.results.length;
-    const passed = this.results.filter(r => r.status === 'passed').length;
-    const failed = this.results.filter(r => r.status === 'failed').length;
-    const skipped = this.results.filter(r => r.status === 'skipped').length;
+    const passed = this.results.filter(r => r.status === TestStatus.PASSED).length;
+    const quarantined = this.results.filter(r => this.isQuarantinedFailure(r)).length;
+    const failed = this.results.filter(r => FAILURE_STATUSES.includes(r.status)).length - quarantined;
+    const skipped = this.results.filter(r => r.status === TestStatus.SKIPPED).length;
+    const flaky = this.results.filter(r => r.status === TestStatus.FLAKY).length;
     const duration = this.results.reduce((sum, r) => sum + r.duration, 0);
 
-    return { total, passed, failed, skipped, duration };
+    return { total, passed, failed, skipped, flaky, quarantined, duration };
+  }
+
+  /**
+   * Group the failed tests by normalized error signature, the largest group first
+   */
+  getFailureClusters(): FailureCluster[] {
+    return clusterFailures(this.results);
+  }
+
+  /**
+   * Mask resolved secrets in text written to a report
+   * @param text Text to mask
+   */
+  protected mask(text: string): string {
+    return SecretMasker.getInstance().mask(text);
+  }
+
+  /**
+   * Render a step tree as indented text lines
+   * @param steps Steps to render
+   * @param depth Nesting depth of the steps
+   */
+  protected renderStepTree(steps: TestStep[] = [], depth: number = 0): string[] {
+    const lines: string[] = [];
+    const indent = '  '.repeat(depth);
+
+    for (const step of steps) {
+      const mark = step.status === TestStatus.PASSED ? '✓' : step.status === TestStatus.FAILED ? '✗' : '-';
+      let line = `${indent}${mark} ${step.title} (${step.duration}ms)`;
+      if (step.error) {
+        line += ` - ${step.error.message}`;
+      }
+      if (step.screenshot) {
+        line += ` [screenshot: ${step.screenshot.path}]`;
+      }
+      lines.push(line);
+      lines.push(...this.renderStepTree(step.steps, depth + 1));
+    }
+
+    return lines;
+  }
+
+  /**
+   * Get the attachments of a test and all its attempts allowed by the reporter options
+   * @param result Test result
+   */
+  protected getAttachments(result: TestResult): Attachment[] {
+    if (!this.options.attachments) {
+      return [];
+    }
+
+    const attachments = [...(result.attachments ?? []), ...(result.attempts ?? []).flatMap(attempt => attempt.attachments)];
+    const unique = attachments.filter((attachment, index) =>
+      attachments.findIndex(other => other.path === attachment.path) === index
+    );
+
+    return unique.filter(attachment => {
+      if (attachment.contentType.startsWith('image/')) {
+        return this.options.screenshots;
+      }
+      if (attachment.contentType.startsWith('video/')) {
+        return this.options.videos;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Get the tags of a test
+   * @param result Test result
+   */
+  protected getTags(result: TestResult): string[] {
+    const tags: unknown = result.metadata?.tags;
+    return Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : [];
+  }
+
+  /**
+   * Get the annotations of a test
+   * @param result Test result
+   */
+  protected getAnnotations(result: TestResult): TestAnnotation[] {
+    const annotations: unknown = result.metadata?.annotations;
+    return Array.isArray(annotations) ? (annotations as TestAnnotation[]) : [];
+  }
+
+  /**
+   * Get the stack trace and hook failures of a failed test
+   * @param result Test result
+   */
+  protected getFailureDetails(result: TestResult): string {
+    const details: string[] = [];
+    if (result.error) {
+      details.push(result.error.stack ?? `${result.error.name}: ${result.error.message}`);
+    }
+    for (const failure of result.hookFailures ?? []) {
+      details.push(`${failure.hook} hook '${failure.name}' failed: ${failure.error.stack ?? failure.error.message}`);
+    }
+    return details.join('\n\n');
+  }
+
+  /**
+   * Check whether a test failed while quarantined, so its failure must not fail the build
+   * @param result Test result
+   */
+  protected isQuarantinedFailure(result: TestResult): boolean {
+    return FAILURE_STATUSES.includes(result.status) && result.metadata?.quarantined === true;
+  }
+
+  /**
+   * Get the reason a test was skipped, if any
+   * @param result Test result
+   */
+  protected getSkipReason(result: TestResult): string | undefined {
+    if (result.status !== TestStatus.SKIPPED) {
+      return undefined;
+    }
+    const reason: unknown = result.metadata?.skipReason;
+    return typeof reason === 'string' ? reason : 'Skipped';
   }
 }
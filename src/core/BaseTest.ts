@@ -3,18 +3,70 @@
  * Provides core functionality for all test implementations
  */
 import { Browser, BrowserContext, Page, chromium, firefox, webkit } from 'playwright';
-import { TestConfig, BrowserContextConfig, TestResult } from './types';
-import { DEFAULT_TIMEOUT, TestStatus } from './constants';
+import {
+  TestConfig,
+  BrowserContextConfig,
+  TestResult,
+  TestAttempt,
+  Attachment,
+  StepOptions,
+  AnnotationType,
+  ConditionalAnnotation,
+  SkipCondition,
+  SkipContext,
+  TestAnnotation,
+  TestParameters,
+  ParameterSource
+} from './types';
+import {
+  DEFAULT_SCREENSHOT_DIR,
+  DEFAULT_TIMEOUT,
+  DEFAULT_TRACE_DIR,
+  DEFAULT_VIDEO_DIR,
+  FAILURE_STATUSES,
+  TestStatus
+} from './constants';
 import { ConfigManager } from './ConfigManager';
+import { HookManager } from './hooks';
+import { SessionManager } from './SessionManager';
+import { StepRecorder, stepScreenshot } from './StepRecorder';
+import { SoftAssertions } from './SoftAssertions';
+import { declareSelfTimed, runWithTimeout, TimeoutError } from './timeout';
+import { shouldKeepTrace, shouldRecordTrace } from './tracing';
 import { Logger } from '@utils/Logger';
 
+type TestPhase = 'setup' | 'test' | 'teardown';
+
+/**
+ * Thrown by skip() and fixme() to stop the test body
+ */
+class TestSkipError extends Error {
+  constructor(readonly annotation: TestAnnotation) {
+    super(annotation.description ?? `Test marked as ${annotation.type}`);
+    this.name = 'TestSkipError';
+  }
+}
+
 export abstract class BaseTest {
+  // Data-driven parameter source, expanded into one test per row by createTestTasks()
+  static parameters?: ParameterSource;
+
   protected context: BrowserContext | null = null;
   protected page: Page | null = null;
   protected browser: Browser | null = null;
   protected config: TestConfig;
   protected logger: Logger;
   protected result: TestResult;
+  protected params: TestParameters = {};
+  protected retry = 0;
+  protected soft: SoftAssertions = this.createSoftAssertions();
+  // Aborted when the current phase (setup, test body or teardown) runs out of time
+  protected signal: AbortSignal = new AbortController().signal;
+  private attempt: TestAttempt | null = null;
+  private steps: StepRecorder = new StepRecorder();
+  private tracing = false;
+  private annotations: TestAnnotation[] = [];
+  private parameterConfig: TestConfig = {};
 
   /**
    * Creates a new BaseTest instance
@@ -27,6 +79,7 @@ export abstract class BaseTest {
       tags: [],
       screenshot: true,
       video: false,
+      trace: 'off',
       headless: true,
       browserName: 'chromium',
       ...config
@@ -46,6 +99,27 @@ export abstract class BaseTest {
     };
   }
 
+  /**
+   * Set the parameters of a data-driven test variant
+   * @param params Parameter values available to the test as `this.params`
+   * @param name Test name including the parameters
+   * @param config Settings of the variant (browser, viewport), taking precedence over global settings
+   */
+  setParameters(params: TestParameters, name?: string, config: TestConfig = {}): void {
+    this.params = { ...params };
+    this.parameterConfig = { ...config };
+    if (name) {
+      this.result.name = name;
+    }
+  }
+
+  /**
+   * Get the tags of the test
+   */
+  getTags(): string[] {
+    return this.config.tags ?? [];
+  }
+
   /**
    * Setup method called before test execution
    * Initializes browser, context and page
@@ -55,21 +129,32 @@ export abstract class BaseTest {
       this.logger.info('Setting up test...');
 
       // Merge with global config
-      this.config = {
-        ...this.config,
-        ...ConfigManager.getInstance().getTestConfig()
-      };
+      this.resolveConfig();
 
       // Initialize browser
-      await this.initBrowser();
+      await this.initBrowser(this.signal);
 
       // Initialize context and page
       if (this.browser) {
+        // Start from the saved login session of the configured role
+        const storageState = this.config.role
+          ? await SessionManager.getInstance().getStorageState(this.config.role, this.browser)
+          : undefined;
+
         this.context = await this.browser.newContext({
           viewport: this.config.viewport,
-          recordVideo: this.config.video ? { dir: './videos/' } : undefined
+          recordVideo: this.config.video
+            ? { dir: ConfigManager.getInstance().getConfig<string>('videosPath', DEFAULT_VIDEO_DIR) }
+            : undefined,
+          storageState
         });
 
+        // Start tracing if the trace mode requires it for this attempt
+        if (shouldRecordTrace(this.config.trace, this.retry)) {
+          await this.context.tracing.start({ screenshots: true, snapshots: true, sources: true });
+          this.tracing = true;
+        }
+
         this.page = await this.context.newPage();
 
         // Set default timeout
@@ -99,6 +184,12 @@ export abstract class BaseTest {
       // Execute custom teardown
       await this.afterTest();
 
+      // Save or discard the trace before the context goes away
+      await this.stopTracing();
+
+      // Video is finalized only when the page is closed
+      const video = this.page?.video() ?? null;
+
       // Close page
       if (this.page) {
         await this.page.close();
@@ -111,6 +202,15 @@ export abstract class BaseTest {
         this.context = null;
       }
 
+      if (video) {
+        this.attach({
+          name: 'Video',
+          path: await video.path(),
+          contentType: 'video/webm',
+          description: 'Video recording of the test attempt'
+        });
+      }
+
       // Close browser
       if (this.browser) {
         await this.browser.close();
@@ -124,22 +224,72 @@ export abstract class BaseTest {
     }
   }
 
+  /**
+   * Stop tracing and attach the trace archive if it should be kept
+   */
+  private async stopTracing(): Promise<void> {
+    if (!this.tracing || !this.context) {
+      return;
+    }
+    this.tracing = false;
+
+    const failed = this.attempt !== null && this.attempt.status !== TestStatus.PASSED;
+    if (!shouldKeepTrace(this.config.trace, failed)) {
+      await this.context.tracing.stop();
+      return;
+    }
+
+    const traceDir = ConfigManager.getInstance().getConfig<string>('tracesPath', DEFAULT_TRACE_DIR);
+    const tracePath = `${traceDir}/${this.constructor.name}_retry${this.retry}_${Date.now()}.zip`;
+    await this.context.tracing.stop({ path: tracePath });
+
+    this.attach({
+      name: 'Trace',
+      path: tracePath,
+      contentType: 'application/zip',
+      description: `Playwright trace, open with: npx playwright show-trace ${tracePath}`
+    });
+  }
+
+  /**
+   * Merge global configuration into the test configuration
+   * Settings of a data-driven variant are applied last.
+   */
+  private resolveConfig(): void {
+    this.config = {
+      ...this.config,
+      ...ConfigManager.getInstance().getTestConfig(),
+      ...this.parameterConfig
+    };
+  }
+
   /**
    * Initialize browser based on configuration
+   * A browser that finishes launching after the setup ran out of time is closed
+   * right away: teardown has already run and would not release it.
+   * @param signal Signal of the setup phase
    */
-  private async initBrowser(): Promise<void> {
+  private async initBrowser(signal: AbortSignal): Promise<void> {
+    const options = { headless: this.config.headless, slowMo: this.config.slowMo };
+    let browser: Browser;
     switch (this.config.browserName) {
       case 'firefox':
-        this.browser = await firefox.launch({ headless: this.config.headless });
+        browser = await firefox.launch(options);
         break;
       case 'webkit':
-        this.browser = await webkit.launch({ headless: this.config.headless });
+        browser = await webkit.launch(options);
         break;
       case 'chromium':
       default:
-        this.browser = await chromium.launch({ headless: this.config.headless });
+        browser = await chromium.launch(options);
         break;
     }
+
+    if (signal.aborted) {
+      await browser.close();
+      signal.throwIfAborted();
+    }
+    this.browser = browser;
   }
 
   /**
@@ -159,53 +309,411 @@ export abstract class BaseTest {
   }
 
   /**
-   * Run the test
+   * Run the test, retrying failed attempts up to `config.retries` times.
+   * A test that passes only after a retry is reported as flaky.
+   * Registered beforeEach/afterEach hooks run around the test; their
+   * failures fail the test instead of being thrown.
    */
   async run(): Promise<TestResult> {
+    // Phase timeouts bound the run, so an enclosing runner timeout must not abandon it
+    declareSelfTimed();
+
     const startTime = new Date();
     this.result.startTime = startTime;
     this.result.status = TestStatus.RUNNING;
+    this.result.attempts = [];
+    this.result.attachments = [];
+    delete this.result.error;
+    delete this.result.hookFailures;
+
+    this.resolveConfig();
+    this.annotations = [];
+
+    // Declarative skip/fixme: the browser is not even launched
+    const skipAnnotation = this.evaluateAnnotation('skip') ?? this.evaluateAnnotation('fixme');
+    if (skipAnnotation) {
+      this.markSkipped(skipAnnotation);
+      this.result.endTime = new Date();
+      this.result.duration = this.result.endTime.getTime() - startTime.getTime();
+      return this.result;
+    }
+    this.evaluateAnnotation('fail');
+
+    const hooks = HookManager.getInstance();
+
+    const hookFailures = await hooks.runBeforeEach(this.config);
+    if (hookFailures.length > 0) {
+      this.result.status = TestStatus.FAILED;
+      this.result.error = hookFailures[0].error;
+    } else {
+      await this.runAttempts();
+    }
+
+    const endTime = new Date();
+    this.result.endTime = endTime;
+    this.result.duration = endTime.getTime() - startTime.getTime();
+
+    hookFailures.push(...(await hooks.runAfterEach(this.result, this.config.tags)));
+    if (hookFailures.length > 0) {
+      this.result.hookFailures = hookFailures;
+      if (!this.result.error) {
+        this.result.status = TestStatus.FAILED;
+        this.result.error = hookFailures[0].error;
+      }
+    }
+
+    return this.result;
+  }
+
+  /**
+   * Run attempts until one passes or retries are exhausted
+   */
+  private async runAttempts(): Promise<void> {
+    const attempts: TestAttempt[] = [];
+    const maxRetries = Math.max(0, this.config.retries ?? 0);
+    const declaredAnnotations = [...this.annotations];
+
+    for (this.retry = 0; this.retry <= maxRetries; this.retry++) {
+      if (this.retry > 0) {
+        this.logger.info(`Retrying test (retry ${this.retry} of ${maxRetries})`);
+      }
+
+      // Runtime annotations are collected again by every attempt
+      this.annotations = [...declaredAnnotations];
+
+      const attempt = await this.runAttempt();
+      attempts.push(attempt);
+      this.result.attachments?.push(...attempt.attachments);
+
+      if (attempt.status === TestStatus.PASSED || attempt.status === TestStatus.SKIPPED) {
+        break;
+      }
+    }
+
+    const lastAttempt = attempts[attempts.length - 1];
+
+    if (lastAttempt.status === TestStatus.PASSED) {
+      this.result.status = attempts.length > 1 ? TestStatus.FLAKY : TestStatus.PASSED;
+      if (this.result.status === TestStatus.FLAKY) {
+        this.logger.warn(`Test passed after ${attempts.length - 1} retry(ies) and is marked as flaky`);
+      }
+    } else {
+      this.result.status = lastAttempt.status;
+      this.result.error = lastAttempt.error;
+    }
+
+    if (this.annotations.length > 0) {
+      this.result.metadata = { ...this.result.metadata, annotations: [...this.annotations] };
+    }
+    if (this.getTags().length > 0) {
+      this.result.metadata = { ...this.result.metadata, tags: [...this.getTags()] };
+    }
+    if (lastAttempt.status === TestStatus.SKIPPED) {
+      const annotation = this.annotations.find(a => a.type === 'skip' || a.type === 'fixme');
+      if (annotation) {
+        this.markSkipped(annotation);
+      }
+    }
+
+    this.result.attempts = attempts;
+    this.result.steps = lastAttempt.steps;
+    this.result.retries = attempts.length - 1;
+  }
+
+  /**
+   * Execute a single attempt: setup, test body and teardown
+   */
+  private async runAttempt(): Promise<TestAttempt> {
+    const attempt: TestAttempt = {
+      retry: this.retry,
+      status: TestStatus.RUNNING,
+      duration: 0,
+      startTime: new Date(),
+      endTime: new Date(),
+      attachments: []
+    };
+    this.attempt = attempt;
+    this.steps = new StepRecorder();
+    this.soft = this.createSoftAssertions();
 
     try {
-      await this.setup();
+      await this.steps.record(async () => {
+        await this.runPhase('setup', this.config.setupTimeout, () => this.setup());
+
+        this.logger.info('Executing test...');
+        await this.runPhase('test', this.config.timeout, () => this.executeTest());
 
-      this.logger.info('Executing test...');
-      await this.executeTest();
+        // Fail with every soft check that did not hold
+        this.soft.assertAll();
+      });
 
-      this.result.status = TestStatus.PASSED;
+      attempt.status = TestStatus.PASSED;
       this.logger.info('Test executed successfully');
     } catch (error) {
-      this.result.status = TestStatus.FAILED;
-      this.result.error = error as Error;
+      if (error instanceof TestSkipError) {
+        attempt.status = TestStatus.SKIPPED;
+        this.logger.info(`Test skipped: ${error.message}`);
+        return attempt;
+      }
+
+      attempt.status = error instanceof TimeoutError ? TestStatus.TIMED_OUT : TestStatus.FAILED;
+      // Soft checks that failed before the test stopped are reported with its error
+      attempt.error = error instanceof Error ? this.soft.mergeInto(error) : (error as Error);
       this.logger.error('Test execution failed', error);
 
+      const failedPath = this.steps.getFailedPath();
+      if (failedPath.length > 0) {
+        this.logger.error(`Failed in step: ${failedPath.join(' > ')}`);
+      }
+
       // Take screenshot on failure if enabled
-      if (this.config.screenshot && this.page) {
+      if (this.config.screenshot && this.page && !this.page.isClosed()) {
         try {
           const screenshotPath = `./screenshots/${this.constructor.name}_${Date.now()}.png`;
           await this.page.screenshot({ path: screenshotPath });
 
-          if (this.result.attachments) {
-            this.result.attachments.push({
-              name: 'Failure Screenshot',
-              path: screenshotPath,
-              contentType: 'image/png',
-              description: 'Screenshot taken at the moment of test failure'
-            });
-          }
+          this.attach({
+            name: 'Failure Screenshot',
+            path: screenshotPath,
+            contentType: 'image/png',
+            description: 'Screenshot taken at the moment of test failure'
+          });
         } catch (screenshotError) {
           this.logger.error('Failed to take failure screenshot', screenshotError);
         }
       }
     } finally {
-      await this.teardown();
+      try {
+        await this.runPhase('teardown', this.config.teardownTimeout, () => this.teardown());
+      } catch (teardownError) {
+        if (attempt.status === TestStatus.PASSED) {
+          attempt.status = teardownError instanceof TimeoutError ? TestStatus.TIMED_OUT : TestStatus.FAILED;
+          attempt.error = teardownError as Error;
+        }
+      }
 
-      const endTime = new Date();
-      this.result.endTime = endTime;
-      this.result.duration = endTime.getTime() - startTime.getTime();
+      attempt.endTime = new Date();
+      attempt.duration = attempt.endTime.getTime() - attempt.startTime.getTime();
+      attempt.steps = this.steps.getSteps();
+      this.attempt = null;
+      this.applyExpectedFailure(attempt);
     }
 
-    return this.result;
+    return attempt;
+  }
+
+  /**
+   * Skip the rest of the test
+   * @example this.skip('Not supported on mobile')
+   * @example this.skip(ctx => ctx.browserName === 'webkit', 'Drag and drop is broken in WebKit')
+   * @param condition Skip only when the condition holds (a string is taken as the reason)
+   * @param reason Why the test is skipped
+   */
+  protected skip(condition?: boolean | string | SkipCondition, reason?: string): void {
+    this.annotate('skip', condition, reason);
+  }
+
+  /**
+   * Skip the rest of the test as known to be broken
+   * @param condition Apply only when the condition holds (a string is taken as the reason)
+   * @param reason Description of the problem, e.g. an issue link
+   */
+  protected fixme(condition?: boolean | string | SkipCondition, reason?: string): void {
+    this.annotate('fixme', condition, reason);
+  }
+
+  /**
+   * Mark the test as expected to fail
+   * A failure is then reported as a pass, and a pass as a failure.
+   * @param condition Apply only when the condition holds (a string is taken as the reason)
+   * @param reason Why the test is expected to fail
+   */
+  protected fail(condition?: boolean | string | SkipCondition, reason?: string): void {
+    this.annotate('fail', condition, reason);
+  }
+
+  /**
+   * Get the context skip conditions are evaluated against
+   */
+  protected getSkipContext(): SkipContext {
+    return {
+      browserName: this.config.browserName,
+      environment: ConfigManager.getInstance().getEnvironmentName(),
+      tags: this.config.tags ?? []
+    };
+  }
+
+  /**
+   * Add a runtime annotation if its condition holds
+   * Skip and fixme annotations stop the test immediately.
+   */
+  private annotate(type: AnnotationType, condition?: boolean | string | SkipCondition, reason?: string): void {
+    if (typeof condition === 'string') {
+      reason = condition;
+      condition = true;
+    }
+
+    const applies =
+      typeof condition === 'function' ? condition(this.getSkipContext()) : condition ?? true;
+    if (!applies) {
+      return;
+    }
+
+    const annotation: TestAnnotation = { type, description: reason };
+    this.annotations.push(annotation);
+
+    if (type === 'skip' || type === 'fixme') {
+      throw new TestSkipError(annotation);
+    }
+  }
+
+  /**
+   * Evaluate a declarative annotation from the test configuration
+   * @param type Annotation type
+   */
+  private evaluateAnnotation(type: AnnotationType): TestAnnotation | undefined {
+    const value: boolean | string | ConditionalAnnotation | undefined = this.config[type];
+    if (value === undefined || value === false) {
+      return undefined;
+    }
+
+    if (typeof value === 'object' && !value.when(this.getSkipContext())) {
+      return undefined;
+    }
+
+    const annotation: TestAnnotation = {
+      type,
+      description: typeof value === 'string' ? value : typeof value === 'object' ? value.reason : undefined
+    };
+    this.annotations.push(annotation);
+    return annotation;
+  }
+
+  /**
+   * Mark the result as skipped because of an annotation
+   */
+  private markSkipped(annotation: TestAnnotation): void {
+    const reason = annotation.description ?? (annotation.type === 'fixme' ? 'Marked as fixme' : 'Skipped');
+    this.result.status = TestStatus.SKIPPED;
+    this.result.metadata = {
+      ...this.result.metadata,
+      annotations: [...this.annotations],
+      skipReason: reason
+    };
+    this.logger.info(`Test skipped: ${reason}`);
+  }
+
+  /**
+   * Invert the outcome of an attempt of a test expected to fail
+   */
+  private applyExpectedFailure(attempt: TestAttempt): void {
+    const expected = this.annotations.find(annotation => annotation.type === 'fail');
+    if (!expected) {
+      return;
+    }
+
+    if (FAILURE_STATUSES.includes(attempt.status)) {
+      this.logger.info(`Test failed as expected: ${attempt.error?.message ?? 'unknown error'}`);
+      attempt.status = TestStatus.PASSED;
+      delete attempt.error;
+    } else if (attempt.status === TestStatus.PASSED) {
+      attempt.status = TestStatus.FAILED;
+      attempt.error = new Error(
+        `Expected to fail, but passed${expected.description ? ` (${expected.description})` : ''}`
+      );
+    }
+  }
+
+  /**
+   * Run a phase of the attempt within its time budget
+   * Setup and teardown budgets default to the test timeout.
+   * @param phase Phase being run
+   * @param timeout Phase-specific time budget in milliseconds
+   * @param fn Phase implementation
+   */
+  private async runPhase(phase: TestPhase, timeout: number | undefined, fn: () => Promise<void>): Promise<void> {
+    const budget = timeout ?? this.config.timeout ?? 0;
+    const label = phase === 'test' ? 'Test' : `Test ${phase}`;
+
+    await runWithTimeout(
+      signal => {
+        this.signal = signal;
+        return fn();
+      },
+      budget,
+      `${label} timed out after ${budget}ms`,
+      () => this.forceClose(phase)
+    );
+  }
+
+  /**
+   * Force-close browser resources after a phase ran out of time,
+   * so pending Playwright calls reject and the browser does not leak
+   * @param phase Phase that timed out
+   */
+  private forceClose(phase: TestPhase): void {
+    this.logger.warn(`Test ${phase} timed out, force-closing the ${phase === 'teardown' ? 'browser' : 'page'}`);
+
+    const page = this.page;
+    if (page && !page.isClosed()) {
+      page.close().catch(error => this.logger.error('Failed to force-close the page', error));
+    }
+
+    // Teardown will not get another chance to release the browser
+    if (phase === 'teardown' && this.browser) {
+      const browser = this.browser;
+      this.page = null;
+      this.context = null;
+      this.browser = null;
+      browser.close().catch(error => this.logger.error('Failed to force-close the browser', error));
+    }
+  }
+
+  /**
+   * Run a named step of the test and record it in the test result
+   * Steps may be nested; steps of page objects and components used
+   * inside the body are recorded as its children.
+   * @param title Step title
+   * @param body Step body
+   * @param options Step options
+   */
+  protected async step<T>(title: string, body: () => Promise<T>, options: StepOptions = {}): Promise<T> {
+    this.logger.info(`Step: ${title}`);
+    return this.steps.step(title, body, options, this.page ? stepScreenshot(this.constructor.name, this.page) : undefined);
+  }
+
+  /**
+   * Create a soft assertions collector taking a screenshot for each failed check
+   */
+  private createSoftAssertions(): SoftAssertions {
+    return new SoftAssertions(async index => {
+      if (!this.config.screenshot || !this.page) {
+        return undefined;
+      }
+      const dir = ConfigManager.getInstance().getConfig<string>('screenshotsPath', DEFAULT_SCREENSHOT_DIR);
+      const path = `${dir}/${this.constructor.name}_soft_${index}_${Date.now()}.png`;
+      await this.page.screenshot({ path });
+      const attachment: Attachment = {
+        name: `Soft Assertion Screenshot ${index}`,
+        path,
+        contentType: 'image/png',
+        description: 'Screenshot taken when a soft assertion failed'
+      };
+      this.attach(attachment);
+      return attachment;
+    });
+  }
+
+  /**
+   * Attach an artifact to the current attempt
+   * @param attachment Attachment to add
+   */
+  protected attach(attachment: Attachment): void {
+    if (this.attempt) {
+      this.attempt.attachments.push(attachment);
+    } else {
+      this.result.attachments?.push(attachment);
+    }
   }
 
   /**
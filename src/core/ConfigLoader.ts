@@ -0,0 +1,235 @@
+/**
+ * Configuration Loader
+ * Reads configuration files of the supported formats and interpolates variables in their values
+ */
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { ConfigError, ConfigIssue } from './ConfigSchema';
+
+/**
+ * Supported config file extensions, in lookup order
+ */
+export const CONFIG_FILE_EXTENSIONS = ['.json', '.yaml', '.yml', '.js', '.ts'];
+
+/**
+ * Find the config file with a given base name
+ * @param dir Directory to look in
+ * @param name File name without extension
+ * @throws ConfigError if the file exists in more than one format
+ */
+export function findConfigFile(dir: string, name: string): string | undefined {
+  const candidates = CONFIG_FILE_EXTENSIONS
+    .map(extension => path.join(dir, `${name}${extension}`))
+    .filter(filePath => fs.existsSync(filePath));
+
+  if (candidates.length > 1) {
+    throw new ConfigError([{
+      source: displayPath(dir),
+      path: '',
+      message: `contains '${name}' in several formats (${candidates.map(file => path.basename(file)).join(', ')}); keep only one`
+    }]);
+  }
+
+  return candidates[0];
+}
+
+/**
+ * Read a config file according to its extension
+ * TS/JS modules export the configuration as their default export or module.exports.
+ * TS modules are compiled with the `typescript` package unless a TypeScript loader
+ * (Playwright, ts-node) is already registered.
+ * @param filePath Absolute path of the file
+ * @throws ConfigError naming the file if it cannot be read or parsed
+ */
+export function readConfigFile(filePath: string): unknown {
+  try {
+    switch (path.extname(filePath)) {
+      case '.yaml':
+      case '.yml':
+        return YAML.parse(fs.readFileSync(filePath, 'utf8')) as unknown;
+      case '.js':
+      case '.ts': {
+        // Config modules are loaded synchronously, like the rest of the configuration;
+        // the cached copy is dropped, so a reload sees the current file
+        delete require.cache[filePath];
+        // eslint-disable-next-line @typescript-eslint/no-require-imports
+        const load = (): { default?: unknown } => require(filePath) as { default?: unknown };
+        const module = path.extname(filePath) === '.ts' ? withTypeScriptLoader(load) : load();
+        return module.default ?? module;
+      }
+      default:
+        return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError([{ source: displayPath(filePath), path: '', message: `could not be read: ${reason}` }]);
+  }
+}
+
+/**
+ * Run a function with a require hook compiling .ts files, when no TypeScript loader is registered yet
+ * The hook is removed once the function returns, so the rest of the process keeps its own .ts handling.
+ * @param load Function requiring TS modules
+ * @throws Error if the `typescript` package is not installed
+ */
+function withTypeScriptLoader<T>(load: () => T): T {
+  if (require.extensions['.ts']) {
+    return load();
+  }
+
+  let ts: typeof import('typescript');
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    ts = require('typescript') as typeof import('typescript');
+  } catch {
+    throw new Error("TS config files need the 'typescript' package; install it or use a JSON, YAML or JS file");
+  }
+
+  require.extensions['.ts'] = (module, filename): void => {
+    const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+      fileName: filename,
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, esModuleInterop: true }
+    });
+    (module as NodeModule & { _compile(code: string, filename: string): void })._compile(outputText, filename);
+  };
+  try {
+    return load();
+  } finally {
+    delete require.extensions['.ts'];
+  }
+}
+
+/**
+ * Read a .env file
+ * Supports `KEY=value`, `export KEY=value`, quoted values and `#` comments.
+ * @param filePath Absolute path of the file
+ */
+export function readDotEnvFile(filePath: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  fs.readFileSync(filePath, 'utf8').split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      return;
+    }
+
+    const match = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/.exec(trimmed);
+    if (!match) {
+      throw new ConfigError([{ source: `${displayPath(filePath)}:${index + 1}`, path: '', message: 'is not a KEY=value line' }]);
+    }
+
+    const [, key, rawValue] = match;
+    const quoted = /^(['"])(.*)\1$/.exec(rawValue);
+    if (quoted) {
+      variables[key] = quoted[1] === '"' ? quoted[2].replace(/\\n/g, '\n') : quoted[2];
+    } else {
+      variables[key] = rawValue.replace(/\s+#.*$/, '');
+    }
+  });
+
+  return variables;
+}
+
+const PLACEHOLDER = /\$\{(env|config):([^}:]+)(?::-([^}]*))?\}/g;
+const WHOLE_PLACEHOLDER = /^\$\{(env|config):([^}:]+)(?::-([^}]*))?\}$/;
+
+/**
+ * Resolves `${env:NAME}`, `${config:key.path}` and `${env:NAME:-default}` placeholders
+ */
+export class Interpolator {
+  private readonly issues: ConfigIssue[] = [];
+
+  /**
+   * Create a new interpolator
+   * @param variables Environment variables available to `${env:...}`
+   * @param config Configuration available to `${config:...}`
+   * @param sourceOf Function naming where the value at a key path came from
+   */
+  constructor(
+    private readonly variables: Record<string, string | undefined>,
+    private readonly config: Record<string, unknown>,
+    private readonly sourceOf: (path: string) => string
+  ) {}
+
+  /**
+   * Resolve every placeholder in a value
+   * A string consisting of a single `${config:...}` placeholder keeps the type of the referenced value.
+   * @param value Value to resolve
+   * @param path Key path of the value, for error messages
+   * @throws ConfigError listing every unresolvable placeholder
+   */
+  resolve<T>(value: T, path: string = ''): T {
+    const resolved = this.resolveValue(value, path, []);
+    if (this.issues.length > 0) {
+      throw new ConfigError(this.issues.splice(0));
+    }
+    return resolved as T;
+  }
+
+  private resolveValue(value: unknown, path: string, stack: string[]): unknown {
+    if (typeof value === 'string') {
+      return this.resolveString(value, path, stack);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.resolveValue(item, `${path}[${index}]`, stack));
+    }
+    if (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.resolveValue(item, path ? `${path}.${key}` : key, stack)])
+      );
+    }
+    return value;
+  }
+
+  private resolveString(value: string, path: string, stack: string[]): unknown {
+    const whole = WHOLE_PLACEHOLDER.exec(value);
+    if (whole) {
+      const [, kind, name, fallback] = whole;
+      return this.lookup(kind, name, fallback, path, stack);
+    }
+
+    return value.replace(PLACEHOLDER, (_, kind: string, name: string, fallback?: string) => {
+      const resolved = this.lookup(kind, name, fallback, path, stack);
+      return typeof resolved === 'string' ? resolved : JSON.stringify(resolved) ?? '';
+    });
+  }
+
+  private lookup(kind: string, name: string, fallback: string | undefined, path: string, stack: string[]): unknown {
+    const key = name.trim();
+
+    if (kind === 'env') {
+      const variable = this.variables[key];
+      if (variable !== undefined && variable !== '') {
+        return variable;
+      }
+      return fallback ?? this.fail(path, `references undefined environment variable ${key}`);
+    }
+
+    if (stack.includes(key)) {
+      return this.fail(path, `has a circular reference: ${[...stack, key].join(' -> ')}`);
+    }
+
+    const referenced = key.split('.').reduce<unknown>(
+      (current, part) => (typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[part] : undefined),
+      this.config
+    );
+    if (referenced === undefined) {
+      return fallback ?? this.fail(path, `references undefined config key ${key}`);
+    }
+    return this.resolveValue(referenced, key, [...stack, key]);
+  }
+
+  private fail(path: string, message: string): string {
+    this.issues.push({ source: this.sourceOf(path), path, message });
+    return '';
+  }
+}
+
+/**
+ * Show a file path relative to the working directory
+ * @param filePath Absolute path
+ */
+export function displayPath(filePath: string): string {
+  return path.relative(process.cwd(), filePath) || filePath;
+}
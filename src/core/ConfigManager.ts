@@ -1,38 +1,152 @@
 /**
  * Configuration Manager
  * Singleton class for managing framework configuration
+ *
+ * Configuration is resolved from layers, each overriding the previous one:
+ * defaults → config/base.* → config/<env>.* → environment variables → programmatic overrides
+ *
+ * Config files may be JSON, YAML, JS or TS; .env and .env.<env> files supply environment variables.
+ * String values may contain `${env:NAME}`, `${env:NAME:-default}` and `${config:key.path}` placeholders.
  */
 import fs from 'fs';
 import path from 'path';
-import { TestConfig, EnvironmentConfig } from './types';
-import { DEFAULT_TIMEOUT, DEFAULT_LOG_LEVEL } from './constants';
+import { TestConfig, EnvironmentConfig, EnvironmentDefinition, GlobalConfig } from './types';
+import {
+  DEFAULT_TIMEOUT,
+  DEFAULT_LOG_LEVEL,
+  DEFAULT_SCREENSHOT_DIR,
+  DEFAULT_VIDEO_DIR,
+  DEFAULT_TRACE_DIR,
+  DEFAULT_REPORT_DIR,
+  DEFAULT_HISTORY_DIR,
+  DEFAULT_HISTORY_RUNS
+} from './constants';
+import { TagExpression } from './TagExpression';
+import { CONFIG_SCHEMA, ConfigError, ConfigValidator, coerceEnvValue, resolveSchemaPath } from './ConfigSchema';
+import { Interpolator, displayPath, findConfigFile, readConfigFile, readDotEnvFile } from './ConfigLoader';
+import {
+  DEFAULT_SECRETS_KEY_VARIABLE,
+  EnvSecretProvider,
+  FileSecretProvider,
+  SECRET_REFERENCE_PREFIX,
+  SecretError,
+  SecretProvider,
+  isSecretReference
+} from './Secrets';
+import { SecretMasker } from '../utils/SecretMasker';
+
+/**
+ * Configuration layers in resolution order, and the environment definitions behind `environment.*`
+ */
+export type ConfigLayerName = 'defaults' | 'base' | 'environment' | 'env' | 'override' | 'environments';
+
+/**
+ * Where a configuration value came from
+ */
+export interface ConfigSource {
+  layer: ConfigLayerName;
+  // File path, environment variable name, 'defaults' or 'override'
+  origin: string;
+  // Environment definition or overlay an `environment.*` value comes from, e.g. `inherited from dev`
+  definition?: string;
+}
+
+interface ConfigLayer {
+  name: ConfigLayerName;
+  values: Record<string, unknown>;
+  // Origin of every leaf value, keyed by dotted path
+  origins: Map<string, string>;
+}
+
+/**
+ * Built-in defaults
+ */
+const DEFAULT_CONFIG: GlobalConfig & Record<string, unknown> = {
+  timeout: DEFAULT_TIMEOUT,
+  retries: 0,
+  headless: true,
+  browserType: 'chromium',
+  viewport: { width: 1280, height: 720 },
+  slowMo: 0,
+  screenshotsPath: DEFAULT_SCREENSHOT_DIR,
+  videosPath: DEFAULT_VIDEO_DIR,
+  tracesPath: DEFAULT_TRACE_DIR,
+  reportPath: DEFAULT_REPORT_DIR,
+  logLevel: DEFAULT_LOG_LEVEL,
+  test: {
+    screenshot: true,
+    video: false,
+    trace: 'off'
+  },
+  history: {
+    path: DEFAULT_HISTORY_DIR,
+    runs: DEFAULT_HISTORY_RUNS
+  },
+  quarantine: []
+};
+
+/**
+ * Environment variables mapped onto GlobalConfig fields
+ * (TEST_* variables are mapped generically in addition to these)
+ */
+const ENV_VARIABLES: Record<string, keyof GlobalConfig> = {
+  BASE_URL: 'baseUrl',
+  API_BASE_URL: 'apiBaseUrl',
+  TIMEOUT: 'timeout',
+  RETRIES: 'retries',
+  HEADLESS: 'headless',
+  BROWSER_TYPE: 'browserType',
+  SLOW_MO: 'slowMo',
+  SCREENSHOTS_PATH: 'screenshotsPath',
+  VIDEOS_PATH: 'videosPath',
+  TRACES_PATH: 'tracesPath',
+  REPORT_PATH: 'reportPath',
+  LOG_LEVEL: 'logLevel'
+};
+
+/**
+ * Prefix of variables overriding any configuration key, e.g. TEST_API__HEADERS__X_TENANT
+ */
+const ENV_PREFIX = 'TEST_';
 
 export class ConfigManager {
   private static instance: ConfigManager;
-  private config: Record<string, any>;
-  private testConfig: TestConfig;
+  private static readonly validator = new ConfigValidator();
+  private config: Record<string, unknown>;
+  private layers: ConfigLayer[];
+  private overrides: ConfigLayer;
+  private sources: Map<string, ConfigSource>;
+  // Sources of the current environment values, keyed by `environment.<path>`
+  private environmentSources: Map<string, ConfigSource>;
+  private definitions: Map<string, EnvironmentDefinition>;
   private environments: Map<string, EnvironmentConfig>;
+  private currentEnvironment?: EnvironmentConfig;
   private currentEnv: string;
+  // Overlays chosen with setEnvironment(); the `overlays` config key applies otherwise
+  private selectedOverlays?: string[];
+  private variables: Record<string, string>;
+  private variableOrigins: Map<string, string>;
+  private secretProviders: Map<string, SecretProvider>;
+  private secrets: Map<string, string>;
 
   /**
    * Private constructor to enforce singleton pattern
    */
   private constructor() {
     this.config = {};
+    this.layers = [];
+    this.overrides = { name: 'override', values: {}, origins: new Map() };
+    this.sources = new Map();
+    this.environmentSources = new Map();
+    this.definitions = new Map();
     this.environments = new Map();
     this.currentEnv = process.env.TEST_ENV || 'dev';
-
-    // Default test configuration
-    this.testConfig = {
-      timeout: DEFAULT_TIMEOUT,
-      retries: 0,
-      browserName: 'chromium',
-      headless: true,
-      screenshot: true,
-      video: false,
-      logLevel: DEFAULT_LOG_LEVEL as any,
-      viewport: { width: 1280, height: 720 }
-    };
+    this.variables = {};
+    this.variableOrigins = new Map();
+    this.secretProviders = new Map();
+    this.secrets = new Map();
+    this.registerSecretProvider(new EnvSecretProvider(name => this.variables[name]));
+    this.registerSecretProvider(new FileSecretProvider(() => this.variables[DEFAULT_SECRETS_KEY_VARIABLE]));
 
     // Load configuration
     this.loadConfig();
@@ -50,76 +164,360 @@ export class ConfigManager {
 
   /**
    * Load configuration from files and environment variables
+   * @throws ConfigError if a file cannot be parsed or the resolved configuration is invalid
    */
   private loadConfig(): void {
-    try {
-      // Load base config
-      const baseConfigPath = path.resolve(process.cwd(), 'config', 'base.json');
-      if (fs.existsSync(baseConfigPath)) {
-        const baseConfig = JSON.parse(fs.readFileSync(baseConfigPath, 'utf8'));
-        this.config = { ...this.config, ...baseConfig };
+    this.layers = [createLayer('defaults', DEFAULT_CONFIG, 'defaults')];
+
+    // Load .env files; variables set in the process take precedence
+    this.loadVariables();
+
+    // Load base config
+    const baseLayer = this.loadFileLayer('base', 'base');
+    if (baseLayer) {
+      this.layers.push(baseLayer);
+    }
+
+    // Load environment-specific config
+    const envLayer = this.loadFileLayer('environment', this.currentEnv);
+    if (envLayer) {
+      this.layers.push(envLayer);
+    }
+
+    // Load environment variables
+    this.layers.push(this.loadEnvLayer());
+
+    this.merge();
+    this.validate();
+
+    // Load environments
+    this.loadEnvironments();
+  }
+
+  /**
+   * Collect environment variables from .env and .env.<env> files and the process
+   */
+  private loadVariables(): void {
+    this.variables = {};
+    this.variableOrigins = new Map();
+
+    for (const file of ['.env', `.env.${this.currentEnv}`]) {
+      const filePath = path.resolve(process.cwd(), file);
+      if (fs.existsSync(filePath)) {
+        Object.entries(readDotEnvFile(filePath)).forEach(([key, value]) => {
+          this.variables[key] = value;
+          this.variableOrigins.set(key, `${key} (${file})`);
+        });
       }
+    }
 
-      // Load environment-specific config
-      const envConfigPath = path.resolve(process.cwd(), 'config', `${this.currentEnv}.json`);
-      if (fs.existsSync(envConfigPath)) {
-        const envConfig = JSON.parse(fs.readFileSync(envConfigPath, 'utf8'));
-        this.config = { ...this.config, ...envConfig };
+    Object.entries(process.env).forEach(([key, value]) => {
+      if (value !== undefined) {
+        this.variables[key] = value;
+        this.variableOrigins.set(key, key);
       }
+    });
+  }
 
-      // Load environment variables
-      Object.keys(process.env).forEach(key => {
-        if (key.startsWith('TEST_')) {
-          const configKey = key.substring(5).toLowerCase();
-          this.config[configKey] = process.env[key];
-        }
-      });
+  /**
+   * Load a config file from the config directory as a layer
+   * @param name Layer name
+   * @param fileName File name without extension (JSON, YAML, JS or TS)
+   */
+  private loadFileLayer(name: ConfigLayerName, fileName: string): ConfigLayer | undefined {
+    const filePath = findConfigFile(path.resolve(process.cwd(), 'config'), fileName);
+    if (!filePath) {
+      return undefined;
+    }
+    const values = readConfigFile(filePath);
+    if (!isPlainObject(values)) {
+      throw new ConfigError([{ source: displayPath(filePath), path: '', message: 'must contain an object' }]);
+    }
+    return createLayer(name, values, filePath);
+  }
+
+  /**
+   * Collect configuration from environment variables
+   * `__` separates nested keys (TEST_TEST__BROWSER_NAME → test.browserName); values are
+   * converted to the type the schema declares, and JSON objects and arrays are parsed.
+   */
+  private loadEnvLayer(): ConfigLayer {
+    const layer: ConfigLayer = { name: 'env', values: {}, origins: new Map() };
 
-      // Load environments
-      this.loadEnvironments();
+    // Shorter names first, so TEST_API__HEADERS__X_TENANT refines a JSON-valued TEST_API__HEADERS
+    const names = Object.keys(this.variables).sort((a, b) => a.length - b.length || a.localeCompare(b));
 
-      // Update test config
-      if (this.config.test) {
-        this.testConfig = { ...this.testConfig, ...this.config.test };
+    for (const name of names) {
+      let segments: string[];
+      if (ENV_VARIABLES[name]) {
+        segments = [ENV_VARIABLES[name]];
+      } else if (name.startsWith(ENV_PREFIX) && name.length > ENV_PREFIX.length) {
+        segments = name.substring(ENV_PREFIX.length).split('__').filter(segment => segment.length > 0);
+      } else {
+        continue;
+      }
+
+      const { path: keyPath, schema } = resolveSchemaPath(segments);
+      if (this.isForeignEnvVariable(keyPath[0])) {
+        continue;
+      }
+      const value = coerceEnvValue(this.variables[name], schema);
+      const origin = this.variableOrigins.get(name) ?? name;
+      const key = keyPath.join('.');
+
+      layer.values = deepMerge(layer.values, nestValue(keyPath, value));
+      for (const existing of Array.from(layer.origins.keys())) {
+        if (existing === key || existing.startsWith(`${key}.`)) {
+          layer.origins.delete(existing);
+        }
+      }
+      if (isPlainObject(value) && Object.keys(value).length > 0) {
+        flattenLeaves(value, key).forEach(([leaf]) => layer.origins.set(leaf, origin));
+      } else {
+        layer.origins.set(key, origin);
       }
-    } catch (error) {
-      console.error('Error loading configuration:', error);
     }
+
+    return layer;
+  }
+
+  /**
+   * Check whether a TEST_* variable is unrelated to the configuration (e.g. Playwright's TEST_WORKER_INDEX):
+   * its top-level key is neither declared in the schema nor set by a config file
+   * @param key Top-level key the variable maps onto
+   */
+  private isForeignEnvVariable(key: string): boolean {
+    return !(key in CONFIG_SCHEMA.properties) && !this.layers.some(layer => key in layer.values);
   }
 
   /**
-   * Load environment configurations
+   * Load environment definitions and resolve their inheritance and the selected overlays
    */
   private loadEnvironments(): void {
-    const envsPath = path.resolve(process.cwd(), 'config', 'environments.json');
-    if (fs.existsSync(envsPath)) {
-      try {
-        const environments = JSON.parse(fs.readFileSync(envsPath, 'utf8'));
-        if (Array.isArray(environments)) {
-          environments.forEach(env => {
-            if (env.name) {
-              this.environments.set(env.name, env as EnvironmentConfig);
-            }
-          });
+    this.definitions = new Map();
+    this.environments = new Map();
+    this.currentEnvironment = undefined;
+    this.environmentSources = new Map();
+    this.secrets.clear();
+
+    const envsPath = findConfigFile(path.resolve(process.cwd(), 'config'), 'environments');
+    const overlays = this.getEnvironmentOverlays();
+    if (!envsPath) {
+      if (overlays.length > 0) {
+        throw new ConfigError([{ source: this.describeOverlaySource(), path: 'overlays', message: 'require config/environments.*' }]);
+      }
+      return;
+    }
+    const file = displayPath(envsPath);
+
+    // Hosts and ports may refer to variables and to the resolved configuration
+    const definitions = new Interpolator(this.variables, this.config, () => file).resolve(readConfigFile(envsPath));
+    const issues = ConfigManager.validator.validateEnvironments(definitions, file);
+    if (issues.length > 0) {
+      throw new ConfigError(issues);
+    }
+
+    (definitions as EnvironmentDefinition[]).forEach(definition => {
+      this.definitions.set(definition.name, definition);
+    });
+
+    for (const name of this.definitions.keys()) {
+      const environment: Partial<EnvironmentDefinition> = { ...this.resolveDefinition(name, file) };
+      delete environment.extends;
+      delete environment.overlays;
+      issues.push(...ConfigManager.validator.validateEnvironment({ ...environment, name }, file));
+      this.environments.set(name, environment as EnvironmentConfig);
+    }
+    if (issues.length > 0) {
+      throw new ConfigError(issues);
+    }
+
+    const current = this.applyOverlays(file, overlays);
+    this.currentEnvironment = current && this.withLazySecrets(current);
+    if (current) {
+      this.trackEnvironmentSources(envsPath, overlays);
+    }
+  }
+
+  /**
+   * Record which definition each value of the current environment comes from:
+   * the environment itself, an environment it extends or a selected overlay
+   * @param envsPath Environments file
+   * @param overlays Names of the applied overlays
+   */
+  private trackEnvironmentSources(envsPath: string, overlays: string[]): void {
+    // The current environment last, after the environments it extends
+    const chain: EnvironmentDefinition[] = [];
+    let current = this.definitions.get(this.currentEnv);
+    while (current) {
+      chain.unshift(current);
+      current = current.extends ? this.definitions.get(current.extends) : undefined;
+    }
+
+    const track = (values: object, label: string): void => {
+      for (const [key] of flattenLeaves(values as Record<string, unknown>, 'environment')) {
+        for (const existing of Array.from(this.environmentSources.keys())) {
+          if (existing.startsWith(`${key}.`) || key.startsWith(`${existing}.`)) {
+            this.environmentSources.delete(existing);
+          }
         }
-      } catch (error) {
-        console.error('Error loading environments:', error);
+        this.environmentSources.set(key, { layer: 'environments', origin: envsPath, definition: label });
       }
+    };
+
+    for (const definition of chain) {
+      const own: Partial<EnvironmentDefinition> = { ...definition };
+      delete own.extends;
+      delete own.overlays;
+      track(own, definition.name === this.currentEnv ? definition.name : `inherited from ${definition.name}`);
+    }
+    const available = this.resolveDefinition(this.currentEnv, displayPath(envsPath)).overlays ?? {};
+    for (const overlay of overlays) {
+      track(available[overlay], `overlay ${overlay}`);
     }
   }
 
+  /**
+   * Merge an environment definition onto the definitions it extends
+   * @param name Environment name
+   * @param file Environments file, for error messages
+   * @param chain Environments extending this one, for cycle detection
+   */
+  private resolveDefinition(name: string, file: string, chain: string[] = []): EnvironmentDefinition {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      const child = chain[chain.length - 1];
+      throw new ConfigError([{ source: file, path: `${child}.extends`, message: `refers to unknown environment '${name}'` }]);
+    }
+    if (chain.includes(name)) {
+      throw new ConfigError([{
+        source: file,
+        path: `${name}.extends`,
+        message: `has a circular reference: ${[...chain, name].join(' -> ')}`
+      }]);
+    }
+    if (!definition.extends) {
+      return definition;
+    }
+
+    const parent = this.resolveDefinition(definition.extends, file, [...chain, name]);
+    const own: Partial<EnvironmentDefinition> = { ...definition };
+    delete own.extends;
+    return deepMerge(parent, own);
+  }
+
+  /**
+   * Resolve the current environment with the selected overlays deep-merged on top, in order
+   * @param file Environments file, for error messages
+   * @param overlays Names of the overlays to apply
+   */
+  private applyOverlays(file: string, overlays: string[]): EnvironmentConfig | undefined {
+    const environment = this.environments.get(this.currentEnv);
+    if (!environment) {
+      if (overlays.length > 0) {
+        throw new ConfigError([{ source: file, path: '', message: `does not define environment '${this.currentEnv}'` }]);
+      }
+      return undefined;
+    }
+
+    const available = this.resolveDefinition(this.currentEnv, file).overlays ?? {};
+    const unknown = overlays.filter(overlay => !(overlay in available));
+    if (unknown.length > 0) {
+      throw new ConfigError([{
+        source: this.describeOverlaySource(),
+        path: 'overlays',
+        message: `refers to unknown overlay(s) ${unknown.map(overlay => `'${overlay}'`).join(', ')} of environment '${this.currentEnv}'`
+      }]);
+    }
+
+    const resolved = overlays.reduce<EnvironmentConfig>((merged, overlay) => deepMerge(merged, available[overlay]), environment);
+    const issues = ConfigManager.validator.validateEnvironment(resolved, file);
+    if (issues.length > 0) {
+      throw new ConfigError(issues);
+    }
+    return resolved;
+  }
+
+  /**
+   * Describe where the selected overlays came from, for error messages
+   */
+  private describeOverlaySource(): string {
+    return this.selectedOverlays ? 'setEnvironment()' : this.describeSource('overlays');
+  }
+
+  /**
+   * Validate the resolved configuration against the schema
+   * @throws ConfigError naming the source, key path and expected type of every invalid value
+   */
+  private validate(): void {
+    const issues = ConfigManager.validator.validateConfig(this.config, key => this.describeSource(key));
+
+    if (issues.length > 0) {
+      throw new ConfigError(issues);
+    }
+  }
+
+  /**
+   * Describe where the value at a key path came from, for error messages
+   */
+  private describeSource(key: string): string {
+    // Missing keys are reported against the object that should contain them
+    const parent = key.replace(/\.[^.]*$/, '');
+    const source = this.getSource(key) ??
+      Array.from(this.sources.entries()).find(([existing]) => existing.startsWith(`${parent}.`))?.[1];
+
+    if (!source) {
+      return 'configuration';
+    }
+    return source.layer === 'base' || source.layer === 'environment' ? displayPath(source.origin) : source.origin;
+  }
+
+  /**
+   * Merge all layers into the resolved configuration, tracking the source of every value,
+   * and resolve the placeholders in its values
+   */
+  private merge(): void {
+    this.config = {};
+    this.sources = new Map();
+
+    for (const layer of [...this.layers, this.overrides]) {
+      this.config = deepMerge(this.config, layer.values);
+
+      for (const [key, origin] of layer.origins) {
+        // A value replaces everything previously set below or above its path
+        for (const existing of Array.from(this.sources.keys())) {
+          if (existing.startsWith(`${key}.`) || key.startsWith(`${existing}.`)) {
+            this.sources.delete(existing);
+          }
+        }
+        this.sources.set(key, { layer: layer.name, origin });
+      }
+    }
+
+    this.config = new Interpolator(this.variables, this.config, key => this.describeSource(key)).resolve(this.config);
+  }
+
+  /**
+   * Get the whole resolved configuration
+   */
+  getConfig(): GlobalConfig & Record<string, unknown>;
   /**
    * Get config value with type safety
    * @param key Config key
    * @param defaultValue Default value if key not found
    */
-  getConfig<T>(key: string, defaultValue?: T): T {
+  getConfig<T>(key: string, defaultValue?: T): T;
+  getConfig<T>(key?: string, defaultValue?: T): T | (GlobalConfig & Record<string, unknown>) {
+    if (key === undefined) {
+      return { ...this.config, env: this.currentEnv };
+    }
+
     const parts = key.split('.');
-    let current: any = this.config;
+    let current: unknown = this.config;
 
     for (const part of parts) {
       if (current && typeof current === 'object' && part in current) {
-        current = current[part];
+        current = (current as Record<string, unknown>)[part];
       } else {
         return defaultValue as T;
       }
@@ -128,11 +526,105 @@ export class ConfigManager {
     return (current !== undefined ? current : defaultValue) as T;
   }
 
+  /**
+   * Get a GlobalConfig value
+   * @param key GlobalConfig field
+   */
+  get<K extends keyof GlobalConfig>(key: K): GlobalConfig[K] | undefined {
+    if (key === 'env') {
+      return this.currentEnv as GlobalConfig[K];
+    }
+    return this.getConfig<GlobalConfig[K]>(key);
+  }
+
+  /**
+   * Override a GlobalConfig value programmatically
+   * @param key GlobalConfig field
+   * @param value Value to set
+   */
+  set<K extends keyof GlobalConfig>(key: K, value: GlobalConfig[K]): void {
+    this.update({ [key]: value });
+  }
+
+  /**
+   * Override several values programmatically (deep-merged)
+   * @param partialConfig Values to override
+   * @param origin Description of where the values come from
+   * @throws ConfigError if the resulting configuration is invalid; the previous overrides are kept
+   */
+  update(partialConfig: Partial<GlobalConfig> & Record<string, unknown>, origin: string = 'override'): void {
+    const previous = { values: this.overrides.values, origins: new Map(this.overrides.origins) };
+    this.overrides.values = deepMerge(this.overrides.values, partialConfig);
+    for (const [key] of flattenLeaves(partialConfig)) {
+      for (const existing of Array.from(this.overrides.origins.keys())) {
+        if (existing.startsWith(`${key}.`)) {
+          this.overrides.origins.delete(existing);
+        }
+      }
+      this.overrides.origins.set(key, origin);
+    }
+    try {
+      this.merge();
+      this.validate();
+    } catch (error) {
+      // Keep the last valid configuration
+      this.overrides = { name: 'override', ...previous };
+      this.merge();
+      throw error;
+    }
+  }
+
+  /**
+   * Drop all programmatic overrides
+   */
+  reset(): void {
+    this.overrides = { name: 'override', values: {}, origins: new Map() };
+    this.merge();
+  }
+
+  /**
+   * Get where a configuration value came from
+   * Values inside an object set as a whole report the source of that object.
+   * @param key Config key
+   */
+  getSource(key: string): ConfigSource | undefined {
+    const parts = key.split('.');
+    for (let length = parts.length; length > 0; length--) {
+      const prefix = parts.slice(0, length).join('.');
+      const source = this.sources.get(prefix) ?? this.environmentSources.get(prefix);
+      if (source) {
+        return source;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the sources of all resolved leaf values, keyed by dotted path
+   * Values of the current environment are keyed by `environment.<path>`.
+   */
+  getSources(): Record<string, ConfigSource> {
+    return Object.fromEntries([...Array.from(this.sources), ...Array.from(this.environmentSources)]);
+  }
+
   /**
    * Get the current test configuration
+   * GlobalConfig fields are used as defaults for the `test` section.
    */
   getTestConfig(): TestConfig {
-    return this.testConfig;
+    const config = this.config as GlobalConfig & { test?: TestConfig };
+    const derived: TestConfig = {
+      baseUrl: config.baseUrl ?? this.currentEnvironment?.baseUrl,
+      timeout: config.timeout,
+      retries: config.retries,
+      headless: config.headless,
+      browserName: config.browserType,
+      viewport: config.viewport,
+      slowMo: config.slowMo,
+      logLevel: config.logLevel as TestConfig['logLevel']
+    };
+
+    return { ...removeUndefined(derived), ...config.test };
   }
 
   /**
@@ -140,40 +632,212 @@ export class ConfigManager {
    * @param config Test configuration to set
    */
   setTestConfig(config: Partial<TestConfig>): void {
-    this.testConfig = { ...this.testConfig, ...config };
+    this.update({ test: config });
+  }
+
+  /**
+   * Get the tag expression selecting which tests to run
+   * Set via the `tags` config key or the TEST_TAGS environment variable
+   */
+  getTagFilter(): string | undefined {
+    const filter = this.getConfig<string>('tags');
+    return filter ? String(filter) : undefined;
+  }
+
+  /**
+   * Set the tag expression selecting which tests to run
+   * @param expression Tag expression, e.g. `@smoke and not @slow`
+   * @throws TagExpressionError if the expression is malformed
+   */
+  setTagFilter(expression: string): void {
+    TagExpression.parse(expression);
+    this.update({ tags: expression });
+  }
+
+  /**
+   * Get the name of the current environment
+   */
+  getEnvironmentName(): string {
+    return this.currentEnv;
+  }
+
+  /**
+   * Get the names of the overlays applied to the current environment
+   */
+  getEnvironmentOverlays(): string[] {
+    if (this.selectedOverlays) {
+      return [...this.selectedOverlays];
+    }
+    const overlays = this.getConfig<string | string[]>('overlays', []);
+    return (Array.isArray(overlays) ? overlays : overlays.split(','))
+      .map(overlay => overlay.trim())
+      .filter(overlay => overlay.length > 0);
   }
 
   /**
-   * Get the current environment configuration
+   * Get the current environment configuration, with its parents and overlays merged in
    */
   getCurrentEnvironment(): EnvironmentConfig | undefined {
-    return this.environments.get(this.currentEnv);
+    return this.currentEnvironment;
   }
 
   /**
-   * Set the current environment
+   * Switch to another environment and reload the whole configuration for it,
+   * including config/<env>.* and .env.<env>
    * @param env Environment name
+   * @param overlays Overlays to apply (default: the `overlays` config key)
+   * @throws ConfigError if the configuration of the new environment is invalid; the previous environment stays active
    */
-  setEnvironment(env: string): boolean {
-    if (this.environments.has(env)) {
-      this.currentEnv = env;
-      return true;
+  setEnvironment(env: string, overlays?: string[]): boolean {
+    if (!this.definitions.has(env)) {
+      return false;
     }
-    return false;
+
+    const previous = { env: this.currentEnv, overlays: this.selectedOverlays };
+    this.currentEnv = env;
+    this.selectedOverlays = overlays;
+
+    try {
+      this.reload();
+    } catch (error) {
+      this.currentEnv = previous.env;
+      this.selectedOverlays = previous.overlays;
+      this.reload();
+      throw error;
+    }
+    return true;
   }
 
   /**
-   * Get all available environments
+   * Get all available environments, with their parents merged in (overlays are not applied)
    */
   getEnvironments(): EnvironmentConfig[] {
-    return Array.from(this.environments.values());
+    return Array.from(this.environments.values()).map(environment => this.withLazySecrets(environment));
+  }
+
+  /**
+   * Register a provider resolving `secret://<provider.name>/...` references
+   * Replaces a provider registered under the same name, including the built-in `env` and `file` ones.
+   * @param provider Secret provider
+   */
+  registerSecretProvider(provider: SecretProvider): void {
+    this.secretProviders.set(provider.name, provider);
+    this.secrets.clear();
+  }
+
+  /**
+   * Resolve a secret reference; other values are returned unchanged
+   * Resolved values are masked in logs and reports from then on.
+   * @param value Secret reference such as `secret://env/ADMIN_PASSWORD`, or a plain value
+   * @throws SecretError if the reference cannot be resolved
+   */
+  resolveSecret(value: string): string {
+    if (!isSecretReference(value)) {
+      return value;
+    }
+
+    const cached = this.secrets.get(value);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const reference = value.substring(SECRET_REFERENCE_PREFIX.length);
+    const separator = reference.indexOf('/');
+    const provider = separator > 0 ? this.secretProviders.get(reference.substring(0, separator)) : undefined;
+    if (!provider) {
+      throw new SecretError(`No secret provider registered for '${reference.substring(0, separator)}'`, value);
+    }
+
+    const secret = provider.resolve(reference.substring(separator + 1));
+    SecretMasker.getInstance().register(secret);
+    this.secrets.set(value, secret);
+    return secret;
+  }
+
+  /**
+   * Copy an environment whose credentials resolve their secret references on first access
+   */
+  private withLazySecrets(environment: EnvironmentConfig): EnvironmentConfig {
+    const credentials = environment.credentials;
+    if (!credentials || !Object.values(credentials).some(isSecretReference)) {
+      return environment;
+    }
+
+    const lazyCredentials: Record<string, string> = {};
+    for (const [key, value] of Object.entries(credentials)) {
+      Object.defineProperty(lazyCredentials, key, {
+        enumerable: true,
+        get: () => this.resolveSecret(value)
+      });
+    }
+    return { ...environment, credentials: lazyCredentials };
   }
 
   /**
    * Reload configuration (useful for dynamic config changes)
+   * Programmatic overrides are kept.
    */
   reload(): void {
-    this.config = {};
     this.loadConfig();
   }
 }
+
+/**
+ * Create a layer whose values all come from the same origin
+ */
+function createLayer(name: ConfigLayerName, values: Record<string, unknown>, origin: string): ConfigLayer {
+  return {
+    name,
+    values,
+    origins: new Map(flattenLeaves(values).map(([key]) => [key, origin]))
+  };
+}
+
+/**
+ * Check whether a value is a plain object (not an array, null or class instance)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Deep-merge plain objects; arrays and other values are replaced
+ */
+function deepMerge<T extends object>(target: T, source: object): T {
+  const result: Record<string, unknown> = { ...(target as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(source)) {
+    const existing = result[key];
+    result[key] = isPlainObject(value) && isPlainObject(existing)
+      ? deepMerge(existing, value)
+      : value;
+  }
+  return result as T;
+}
+
+/**
+ * List leaf values of an object as [dotted path, value] pairs
+ */
+function flattenLeaves(values: Record<string, unknown>, prefix: string = ''): Array<[string, unknown]> {
+  return Object.entries(values).flatMap(([key, value]): Array<[string, unknown]> => {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    return isPlainObject(value) && Object.keys(value).length > 0
+      ? flattenLeaves(value, fullKey)
+      : [[fullKey, value]];
+  });
+}
+
+/**
+ * Drop undefined properties so they do not override defined ones when spread
+ */
+function removeUndefined<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+/**
+ * Wrap a value into nested objects along a key path
+ */
+function nestValue(keyPath: string[], value: unknown): Record<string, unknown> {
+  const [key, ...rest] = keyPath;
+  return { [key]: rest.length > 0 ? nestValue(rest, value) : value };
+}
@@ -0,0 +1,417 @@
+/**
+ * Configuration Schema
+ * JSON schemas of the framework configuration and environments, and their validation
+ */
+import { ErrorObject } from 'ajv';
+import { SchemaValidator } from '../api/SchemaValidator';
+
+/**
+ * A single problem found in the configuration
+ */
+export interface ConfigIssue {
+  // File or environment variable the offending value came from
+  source: string;
+  // Dotted key path of the offending value
+  path: string;
+  message: string;
+}
+
+/**
+ * Error raised when the configuration cannot be loaded
+ */
+export class ConfigError extends Error {
+  issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    const details = issues.map(issue => `  ${issue.source}: ${issue.path ? `${issue.path} ` : ''}${issue.message}`);
+    super(`Invalid configuration:\n${details.join('\n')}`);
+    this.name = 'ConfigError';
+    this.issues = issues;
+  }
+}
+
+const viewportSchema = {
+  type: 'object',
+  properties: {
+    width: { type: 'integer', minimum: 1 },
+    height: { type: 'integer', minimum: 1 }
+  },
+  required: ['width', 'height'],
+  additionalProperties: false
+};
+
+const browserSchema = { type: 'string', enum: ['chromium', 'firefox', 'webkit'] };
+const logLevelSchema = { type: 'string', enum: ['debug', 'info', 'warn', 'error'] };
+const durationSchema = { type: 'integer', minimum: 0 };
+const annotationSchema = { type: ['boolean', 'string'] };
+
+/**
+ * Schema of the `test` section (TestConfig)
+ */
+export const TEST_CONFIG_SCHEMA = {
+  type: 'object',
+  properties: {
+    timeout: durationSchema,
+    setupTimeout: durationSchema,
+    teardownTimeout: durationSchema,
+    retries: { type: 'integer', minimum: 0 },
+    tags: { type: 'array', items: { type: 'string' } },
+    screenshot: { type: 'boolean' },
+    video: { type: 'boolean' },
+    trace: { type: 'string', enum: ['off', 'on', 'retain-on-failure', 'on-first-retry'] },
+    baseUrl: { type: 'string' },
+    headless: { type: 'boolean' },
+    browserName: browserSchema,
+    viewport: viewportSchema,
+    slowMo: durationSchema,
+    logLevel: logLevelSchema,
+    role: { type: 'string' },
+    skip: annotationSchema,
+    fixme: annotationSchema,
+    fail: annotationSchema
+  },
+  additionalProperties: false
+};
+
+/**
+ * Schema of the resolved configuration (GlobalConfig and its sections)
+ * The top level and `api` accept keys a project defines itself; unknown keys there
+ * are only reported when they look like a misspelled known key.
+ */
+export const CONFIG_SCHEMA = {
+  type: 'object',
+  properties: {
+    baseUrl: { type: 'string' },
+    apiBaseUrl: { type: 'string' },
+    timeout: durationSchema,
+    retries: { type: 'integer', minimum: 0 },
+    headless: { type: 'boolean' },
+    browserType: browserSchema,
+    viewport: viewportSchema,
+    slowMo: durationSchema,
+    screenshotsPath: { type: 'string' },
+    videosPath: { type: 'string' },
+    tracesPath: { type: 'string' },
+    reportPath: { type: 'string' },
+    logLevel: logLevelSchema,
+    env: { type: 'string' },
+    // Tag expression selecting which tests to run
+    tags: { type: 'string' },
+    // Overlays applied to the current environment, as a list or comma-separated
+    overlays: { type: ['string', 'array'], items: { type: 'string' } },
+    test: TEST_CONFIG_SCHEMA,
+    history: {
+      type: 'object',
+      properties: {
+        path: { type: 'string' },
+        runs: { type: 'integer', minimum: 1 }
+      },
+      additionalProperties: false
+    },
+    quarantine: { type: 'array', items: { type: 'string' } },
+    // Reporters by name or module path, optionally with options: ['junit', ['html', { ... }]]
+    reporters: {
+      type: 'array',
+      items: { type: ['string', 'array'], minItems: 1, maxItems: 2, items: { type: ['string', 'object'] } }
+    },
+    api: {
+      type: 'object',
+      properties: {
+        headers: { type: 'object', additionalProperties: { type: 'string' } }
+      }
+    }
+  }
+};
+
+const environmentSettings = {
+  baseUrl: { type: 'string' },
+  apiUrl: { type: 'string' },
+  credentials: { type: 'object', additionalProperties: { type: 'string' } }
+};
+
+/**
+ * Schema of a resolved environment (after inheritance and overlays)
+ */
+export const ENVIRONMENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    ...environmentSettings
+  },
+  required: ['name', 'baseUrl', 'apiUrl'],
+  additionalProperties: false
+};
+
+/**
+ * Schema of config/environments.* (environment definitions)
+ */
+export const ENVIRONMENTS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      extends: { type: 'string', minLength: 1 },
+      overlays: {
+        type: 'object',
+        additionalProperties: { type: 'object', properties: environmentSettings, additionalProperties: false }
+      },
+      ...environmentSettings
+    },
+    required: ['name'],
+    additionalProperties: false
+  }
+};
+
+/**
+ * Subset of JSON Schema used to map and coerce environment variables
+ */
+interface SchemaNode {
+  type?: string | string[];
+  properties?: Record<string, SchemaNode>;
+  additionalProperties?: boolean | SchemaNode;
+  items?: SchemaNode;
+}
+
+/**
+ * Map the `__`-separated segments of an environment variable name onto a config key path
+ *
+ * Segments match declared keys case-insensitively, ignoring underscores (`BROWSER_NAME` → `browserName`).
+ * Keys of free-form maps such as `api.headers` are lower-cased with underscores turned into
+ * dashes (`X_TENANT` → `x-tenant`). Unknown segments are lower-cased, so validation can report them.
+ * @param segments Segments of the variable name, e.g. ['API', 'HEADERS', 'X_TENANT']
+ * @returns Key path and the schema of the value it points to, if declared
+ */
+export function resolveSchemaPath(segments: string[]): { path: string[]; schema?: SchemaNode } {
+  const path: string[] = [];
+  let schema: SchemaNode | undefined = CONFIG_SCHEMA;
+
+  for (const segment of segments) {
+    const normalized = segment.replace(/_/g, '').toLowerCase();
+    const declared: string | undefined = Object.keys(schema?.properties ?? {})
+      .find(key => key.toLowerCase() === normalized);
+
+    if (schema && declared) {
+      path.push(declared);
+      schema = schema.properties?.[declared];
+    } else if (typeof schema?.additionalProperties === 'object') {
+      path.push(segment.toLowerCase().replace(/_/g, '-'));
+      schema = schema.additionalProperties;
+    } else {
+      path.push(segment.toLowerCase());
+      schema = undefined;
+    }
+  }
+
+  return { path, schema };
+}
+
+/**
+ * Convert an environment variable value to the type the schema expects
+ * JSON objects and arrays are parsed wherever they appear. Values that cannot be
+ * converted are kept as strings, so validation reports them against the variable.
+ * @param value Raw variable value
+ * @param schema Schema of the configured value, if declared
+ */
+export function coerceEnvValue(value: string, schema?: SchemaNode): unknown {
+  const types = schema?.type === undefined ? [] : ([] as string[]).concat(schema.type);
+  const trimmed = value.trim();
+
+  if (/^[[{]/.test(trimmed) && (types.length === 0 || types.includes('object') || types.includes('array'))) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return value;
+    }
+  }
+  if ((types.includes('integer') || types.includes('number')) && trimmed !== '' && !isNaN(Number(trimmed))) {
+    return Number(trimmed);
+  }
+  if (types.includes('boolean') && /^(true|false|1|0)$/i.test(trimmed)) {
+    return /^(true|1)$/i.test(trimmed);
+  }
+  if (types.includes('array') && !types.includes('string')) {
+    return trimmed === '' ? [] : trimmed.split(',').map(item => item.trim());
+  }
+  return value;
+}
+
+/**
+ * Validates configuration data and turns schema errors into readable config issues
+ */
+export class ConfigValidator {
+  private static readonly CONFIG = 'config';
+  private static readonly ENVIRONMENTS = 'environments';
+  private static readonly ENVIRONMENT = 'environment';
+
+  private readonly validator: SchemaValidator;
+
+  constructor() {
+    this.validator = new SchemaValidator({ verbose: false });
+    this.validator.registerSchema(ConfigValidator.CONFIG, CONFIG_SCHEMA);
+    this.validator.registerSchema(ConfigValidator.ENVIRONMENTS, ENVIRONMENTS_SCHEMA);
+    this.validator.registerSchema(ConfigValidator.ENVIRONMENT, ENVIRONMENT_SCHEMA);
+  }
+
+  /**
+   * Validate the resolved configuration
+   * @param config Resolved configuration
+   * @param sourceOf Function naming where the value at a key path came from
+   */
+  validateConfig(config: Record<string, unknown>, sourceOf: (path: string) => string): ConfigIssue[] {
+    const misspelled = findMisspelledKeys(config, CONFIG_SCHEMA)
+      .map(({ path, suggestion }) => ({
+        source: sourceOf(path),
+        path,
+        message: `is not a known key (did you mean '${suggestion}'?)`
+      }));
+    return [...this.collectIssues(config, ConfigValidator.CONFIG, CONFIG_SCHEMA, sourceOf), ...misspelled];
+  }
+
+  /**
+   * Validate the list of environment definitions
+   * @param environments Parsed environments file
+   * @param file Path of the environments file
+   */
+  validateEnvironments(environments: unknown, file: string): ConfigIssue[] {
+    return this.collectIssues(environments, ConfigValidator.ENVIRONMENTS, ENVIRONMENTS_SCHEMA, () => file);
+  }
+
+  /**
+   * Validate an environment resolved from its definition, parents and overlays
+   * @param environment Resolved environment
+   * @param file Path of the environments file
+   */
+  validateEnvironment(environment: { name: string }, file: string): ConfigIssue[] {
+    return this.collectIssues(environment, ConfigValidator.ENVIRONMENT, ENVIRONMENT_SCHEMA, () => file)
+      .map(issue => ({ ...issue, path: `${environment.name}.${issue.path}` }));
+  }
+
+  /**
+   * Run a registered schema and describe each error
+   */
+  private collectIssues(
+    data: unknown,
+    schemaName: string,
+    schema: object,
+    sourceOf: (path: string) => string
+  ): ConfigIssue[] {
+    const result = this.validator.validate(data, schemaName);
+    return (result.errors ?? []).map(error => {
+      const path = errorPath(error);
+      return { source: sourceOf(path), path, message: describeError(error, schema) };
+    });
+  }
+}
+
+/**
+ * Convert the JSON pointer of an error into a dotted key path, including the offending key
+ */
+function errorPath(error: ErrorObject): string {
+  const segments = error.instancePath
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  if (error.keyword === 'additionalProperties') {
+    segments.push(String(error.params.additionalProperty));
+  } else if (error.keyword === 'required') {
+    segments.push(String(error.params.missingProperty));
+  }
+
+  return segments.reduce(
+    (path, segment) => /^\d+$/.test(segment) ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment,
+    ''
+  );
+}
+
+/**
+ * Describe a schema error, suggesting the intended key for unknown ones
+ */
+function describeError(error: ErrorObject, schema: object): string {
+  switch (error.keyword) {
+    case 'additionalProperties': {
+      const key = String(error.params.additionalProperty);
+      const suggestion = suggestKey(key, Object.keys(propertiesAt(schema, error.schemaPath)));
+      return suggestion ? `is not a known key (did you mean '${suggestion}'?)` : 'is not a known key';
+    }
+    case 'required':
+      return 'is required';
+    case 'type':
+      return `must be of type ${String(error.params.type)}`;
+    case 'enum':
+      return `must be one of: ${(error.params.allowedValues as unknown[]).map(String).join(', ')}`;
+    default:
+      return error.message ?? 'is invalid';
+  }
+}
+
+/**
+ * Get the declared properties of the schema object an error was raised by
+ */
+function propertiesAt(schema: object, schemaPath: string): Record<string, unknown> {
+  // schemaPath looks like '#/properties/test/additionalProperties'
+  const segments = schemaPath.split('/').slice(1, -1);
+  let current: unknown = schema;
+  for (const segment of segments) {
+    current = (current as Record<string, unknown> | undefined)?.[segment];
+  }
+  return ((current as { properties?: Record<string, unknown> } | undefined)?.properties) ?? {};
+}
+
+/**
+ * Find keys of open objects (accepting project-defined keys) that look like a misspelled declared key
+ */
+function findMisspelledKeys(data: unknown, schema: SchemaNode, prefix: string = ''): Array<{ path: string; suggestion: string }> {
+  if (!data || typeof data !== 'object' || Array.isArray(data) || !schema.properties) {
+    return [];
+  }
+
+  const properties = schema.properties;
+  return Object.entries(data as Record<string, unknown>).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (properties[key]) {
+      return findMisspelledKeys(value, properties[key], path);
+    }
+    // Closed objects are reported by the schema itself
+    const suggestion = schema.additionalProperties === undefined ? suggestKey(key, Object.keys(properties)) : undefined;
+    return suggestion ? [{ path, suggestion }] : [];
+  });
+}
+
+/**
+ * Find the declared key an unknown key is most likely a typo of
+ * Keys match when they differ only in case, or, for longer keys, in one or two characters.
+ * @param key Unknown key
+ * @param known Declared keys
+ */
+function suggestKey(key: string, known: string[]): string | undefined {
+  const normalized = key.toLowerCase();
+  const exact = known.find(candidate => candidate.toLowerCase() === normalized);
+  if (exact || normalized.length < 4) {
+    return exact;
+  }
+
+  const maxDistance = normalized.length >= 8 ? 2 : 1;
+  return known.find(candidate => editDistance(normalized, candidate.toLowerCase()) <= maxDistance);
+}
+
+/**
+ * Edit distance between two strings, counting a swap of adjacent characters as one edit
+ */
+function editDistance(a: string, b: string): number {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_value, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
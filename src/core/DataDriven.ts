@@ -0,0 +1,142 @@
+/**
+ * Data-driven tests
+ * Expands BaseTest subclasses declaring a parameter source into one test task per row
+ */
+import path from 'path';
+import { BaseTest } from './BaseTest';
+import { BaseFixture } from './BaseFixture';
+import { ParameterSource, TestConfig, TestParameters, TestResult, TestTask } from './types';
+
+/**
+ * Constructor of a BaseTest subclass
+ */
+export type TestClass<T extends BaseTest = BaseTest> = (new (config?: TestConfig) => T) & {
+  parameters?: ParameterSource;
+};
+
+/**
+ * Load the parameter rows of a source
+ * @param source Parameter source
+ * @param fixture Fixture used to load file sources
+ */
+export async function loadParameters(
+  source: ParameterSource,
+  fixture: BaseFixture = new BaseFixture()
+): Promise<TestParameters[]> {
+  switch (source.type) {
+    case 'file':
+      return fixture.loadRows(path.resolve(process.cwd(), source.path));
+    case 'table':
+      return source.rows;
+    case 'matrix': {
+      const dimensions: Array<[string, unknown[]]> = [];
+      if (source.browsers?.length) {
+        dimensions.push(['browser', source.browsers]);
+      }
+      if (source.viewports?.length) {
+        dimensions.push(['viewport', source.viewports]);
+      }
+      dimensions.push(...Object.entries(source.parameters ?? {}));
+
+      return dimensions.reduce<TestParameters[]>(
+        (rows, [key, values]) => rows.flatMap(row => values.map(value => ({ ...row, [key]: value }))),
+        [{}]
+      );
+    }
+  }
+}
+
+/**
+ * Build a stable, readable test name from its parameters,
+ * e.g. `LoginTest[browser=firefox, viewport=1280x720, user=admin]`
+ * @param baseName Name of the test class
+ * @param params Parameter values
+ * @param keys Parameters to include (default: all, in row order)
+ */
+export function formatTestName(baseName: string, params: TestParameters, keys?: string[]): string {
+  const parts = (keys ?? Object.keys(params))
+    .filter(key => key in params)
+    .map(key => `${key}=${formatParameterValue(params[key])}`);
+
+  return parts.length > 0 ? `${baseName}[${parts.join(', ')}]` : baseName;
+}
+
+/**
+ * Create test tasks for ParallelTestRunner from a test class
+ * A class without a parameter source yields a single task.
+ * @param testClass BaseTest subclass
+ * @param config Configuration passed to every test instance
+ */
+export async function createTestTasks(
+  testClass: TestClass,
+  config: TestConfig = {}
+): Promise<Array<Omit<TestTask, 'retryCount'>>> {
+  const source = testClass.parameters;
+  const tags = new testClass(config).getTags();
+
+  if (!source) {
+    return [{ id: testClass.name, name: testClass.name, tags, testFn: () => new testClass(config).run() }];
+  }
+
+  const rows = await loadParameters(source);
+  const names = new Set<string>();
+
+  return rows.map(params => {
+    const name = formatTestName(testClass.name, params, source.nameKeys);
+    if (names.has(name)) {
+      throw new Error(`Duplicate data-driven test name "${name}", add distinguishing parameters or nameKeys`);
+    }
+    names.add(name);
+
+    return {
+      id: name,
+      name,
+      tags,
+      testFn: (): Promise<TestResult> => {
+        const test = new testClass(config);
+        test.setParameters(params, name, parametersToConfig(params));
+        return test.run();
+      }
+    };
+  });
+}
+
+/**
+ * Derive browser and viewport settings from a parameter row
+ */
+function parametersToConfig(params: TestParameters): TestConfig {
+  const config: TestConfig = {};
+  const { browser, viewport } = params;
+
+  if (browser === 'chromium' || browser === 'firefox' || browser === 'webkit') {
+    config.browserName = browser;
+  }
+
+  if (typeof viewport === 'string') {
+    const match = /^(\d+)x(\d+)$/.exec(viewport.trim());
+    if (match) {
+      config.viewport = { width: Number(match[1]), height: Number(match[2]) };
+    }
+  } else if (isViewport(viewport)) {
+    config.viewport = viewport;
+  }
+
+  return config;
+}
+
+function isViewport(value: unknown): value is { width: number; height: number } {
+  return typeof value === 'object' && value !== null && 'width' in value && 'height' in value;
+}
+
+/**
+ * Format a parameter value for use in a test name
+ */
+function formatParameterValue(value: unknown): string {
+  if (isViewport(value)) {
+    return `${value.width}x${value.height}`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
@@ -0,0 +1,125 @@
+/**
+ * Failure Clusters
+ * Groups failed tests by a normalized error signature, so failures sharing a root cause are triaged once
+ */
+import crypto from 'crypto';
+import path from 'path';
+import { TestResult } from './types';
+import { FAILURE_STATUSES } from './constants';
+
+/**
+ * Failed tests sharing an error signature
+ */
+export interface FailureCluster {
+  // Short hash of the signature
+  id: string;
+  errorName: string;
+  // Error message with volatile parts replaced by placeholders
+  message: string;
+  // Top stack frames of the framework with volatile parts replaced by placeholders
+  frames: string[];
+  count: number;
+  tests: string[];
+  // Original message and stack of the first failure in the cluster
+  example: { message: string; stack?: string };
+}
+
+// Lines of the message and stack frames that make up a signature
+const SIGNATURE_MESSAGE_LINES = 3;
+const SIGNATURE_FRAMES = 2;
+
+// Source directory of the framework, src/ or dist/ depending on how it runs
+const FRAMEWORK_DIR = path.resolve(__dirname, '..');
+
+// File, line and column at the end of a stack frame
+const FRAME_LOCATION = /\(?([^\s()]+?):\d+:\d+\)?$/;
+
+// Applied in order: specific patterns first, so their digits are not replaced as numbers
+const VOLATILE_PATTERNS: Array<[RegExp, string]> = [
+  // eslint-disable-next-line no-control-regex
+  [/\u001B\[[0-9;]*[A-Za-z]/g, ''],
+  [/\b[a-z][a-z0-9+.-]*:\/\/[^\s'"`)<>]+/gi, '<url>'],
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?\b/g, '<timestamp>'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<id>'],
+  [/\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, '<id>'],
+  // Digits inside identifiers such as item_42 or h1 are kept
+  [/(?<![A-Za-z_$\d])\d+(\.\d+)?/g, '<n>'],
+  [/\s+/g, ' ']
+];
+
+/**
+ * Replace numbers, ids, URLs and timestamps in a text with placeholders
+ * @param text Text to normalize, e.g. an error message
+ */
+export function normalizeErrorText(text: string): string {
+  return VOLATILE_PATTERNS.reduce((normalized, [pattern, placeholder]) => normalized.replace(pattern, placeholder), text).trim();
+}
+
+/**
+ * Get the normalized signature of an error: its name, the start of its message and its top framework stack frames
+ * Frames keep the function and file name; paths, line and column numbers are dropped.
+ * Only frames of the framework itself are kept: frames of test classes, page objects and specs differ
+ * between tests failing for the same reason, and dependencies and Node.js internals add nothing.
+ * @param error Error to describe
+ */
+export function getErrorSignature(error: Error): { errorName: string; message: string; frames: string[] } {
+  const message = normalizeErrorText(
+    error.message.split('\n').filter(line => line.trim() !== '').slice(0, SIGNATURE_MESSAGE_LINES).join('\n')
+  );
+
+  const frames = (error.stack ?? '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.startsWith('at ') && isFrameworkFrame(line))
+    .slice(0, SIGNATURE_FRAMES)
+    .map(line => normalizeErrorText(line.replace(FRAME_LOCATION, (_match, file: string) => `(${path.basename(file)})`)));
+
+  return { errorName: error.name, message, frames };
+}
+
+/**
+ * Check whether a stack frame points into the framework sources
+ */
+function isFrameworkFrame(frame: string): boolean {
+  const file = FRAME_LOCATION.exec(frame)?.[1].replace(/^file:\/\//, '');
+  if (!file || !path.isAbsolute(file)) {
+    return false;
+  }
+  const relative = path.relative(FRAMEWORK_DIR, file);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Group the failed results of a run by error signature, the largest group first
+ * Tests failing in hooks are grouped by the first hook error.
+ * @param results Results of a run
+ */
+export function clusterFailures(results: TestResult[]): FailureCluster[] {
+  const clusters: Map<string, FailureCluster> = new Map();
+
+  for (const result of results) {
+    const error = result.error ?? result.hookFailures?.[0]?.error;
+    if (!FAILURE_STATUSES.includes(result.status) || !error) {
+      continue;
+    }
+
+    const signature = getErrorSignature(error);
+    const key = [signature.errorName, signature.message, ...signature.frames].join('\n');
+    const cluster = clusters.get(key);
+    if (cluster) {
+      cluster.count++;
+      cluster.tests.push(result.name);
+      continue;
+    }
+
+    clusters.set(key, {
+      id: crypto.createHash('sha1').update(key).digest('hex').substring(0, 8),
+      ...signature,
+      count: 1,
+      tests: [result.name],
+      example: { message: error.message, stack: error.stack }
+    });
+  }
+
+  return Array.from(clusters.values()).sort((a, b) => b.count - a.count);
+}
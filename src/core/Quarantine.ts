@@ -0,0 +1,43 @@
+/**
+ * Quarantine
+ * Tests known to be flaky that still run, but whose failures do not fail the build
+ */
+import { ConfigManager } from './ConfigManager';
+
+export class Quarantine {
+  private readonly entries: string[];
+  private readonly patterns: RegExp[];
+
+  /**
+   * Creates a new Quarantine instance
+   * @param entries Exact test names or patterns with * wildcards (default: config quarantine)
+   */
+  constructor(entries: string[] = ConfigManager.getInstance().getConfig<string[]>('quarantine', [])) {
+    this.entries = [...entries];
+    this.patterns = entries.map(entry =>
+      new RegExp(`^${entry.split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`)
+    );
+  }
+
+  /**
+   * Check whether a test is quarantined
+   * @param testName Test name
+   */
+  isQuarantined(testName: string): boolean {
+    return this.patterns.some(pattern => pattern.test(testName));
+  }
+
+  /**
+   * Get the quarantine entries
+   */
+  getEntries(): string[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Check whether any test is quarantined
+   */
+  isEmpty(): boolean {
+    return this.entries.length === 0;
+  }
+}
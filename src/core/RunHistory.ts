@@ -0,0 +1,297 @@
+/**
+ * Run History
+ * Keeps the results of every run on disk and finds tests that are chronically flaky
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { HookFailure, TestAttempt, TestResult, TestStep } from './types';
+import { DEFAULT_HISTORY_DIR, DEFAULT_HISTORY_RUNS, FAILURE_STATUSES, TestStatus } from './constants';
+import { ConfigManager } from './ConfigManager';
+import { SecretMasker } from '@utils/SecretMasker';
+import { Logger } from '@utils/Logger';
+
+/**
+ * Results of one stored run
+ */
+export interface RunRecord {
+  id: string;
+  startTime: Date;
+  environment: string;
+  results: TestResult[];
+}
+
+/**
+ * Statistics of one test across the analysed runs
+ */
+export interface TestHistoryStats {
+  name: string;
+  // Runs in which the test was executed (skipped runs are not counted)
+  runs: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  // Share of runs the test ended up passing in, retries included (0-1)
+  passRate: number;
+  // Share of consecutive runs whose outcome differs from the previous one (0-1)
+  flipRate: number;
+  averageDuration: number;
+  // Change of the duration per run in milliseconds (least squares slope)
+  durationTrend: number;
+  // Durations of the analysed runs, oldest first
+  durations: number[];
+  lastStatus: TestStatus;
+  // Whether the test is considered flaky: it passed on retry, or its flip rate reached the threshold
+  isFlaky: boolean;
+}
+
+/**
+ * Run history options
+ */
+export interface RunHistoryOptions {
+  // Directory storing the run files (default: config history.path)
+  dir?: string;
+  // Number of most recent runs analysed (default: config history.runs)
+  runs?: number;
+  // Flip rate from which a test is considered flaky
+  flipThreshold?: number;
+}
+
+/**
+ * Error as stored in JSON
+ */
+interface StoredError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+/**
+ * Dates are stored as ISO strings and errors as plain objects
+ */
+type Stored<T, Nested extends keyof T = never> = Omit<T, 'startTime' | 'endTime' | 'error' | Nested> & {
+  startTime: string;
+  endTime: string;
+  error?: StoredError;
+};
+
+type StoredStep = Stored<TestStep, 'steps'> & { steps?: StoredStep[] };
+
+type StoredAttempt = Stored<TestAttempt, 'steps'> & { steps?: StoredStep[] };
+
+/**
+ * Run record as stored in JSON
+ */
+interface StoredRun {
+  id: string;
+  startTime: string;
+  environment: string;
+  results: Array<Stored<TestResult, 'attempts' | 'steps' | 'hookFailures'> & {
+    attempts?: StoredAttempt[];
+    steps?: StoredStep[];
+    hookFailures?: Array<Omit<HookFailure, 'error'> & { error: StoredError }>;
+  }>;
+}
+
+const RUN_FILE_PREFIX = 'run-';
+
+export class RunHistory {
+  private readonly dir: string;
+  private readonly runs: number;
+  private readonly flipThreshold: number;
+  private logger: Logger;
+
+  /**
+   * Creates a new RunHistory instance
+   * @param options Run history options
+   */
+  constructor(options: RunHistoryOptions = {}) {
+    const config = ConfigManager.getInstance();
+    this.dir = path.resolve(options.dir ?? config.getConfig<string>('history.path', DEFAULT_HISTORY_DIR));
+    this.runs = options.runs ?? config.getConfig<number>('history.runs', DEFAULT_HISTORY_RUNS);
+    this.flipThreshold = options.flipThreshold ?? 0.2;
+    this.logger = new Logger('RunHistory');
+  }
+
+  /**
+   * Store the results of a run
+   * Resolved secrets are masked before the results are written.
+   * @param results Results of the run
+   * @param startTime When the run started (default: start of the earliest test)
+   */
+  async saveRun(results: TestResult[], startTime?: Date): Promise<RunRecord> {
+    const start = startTime ?? new Date(Math.min(Date.now(), ...results.map(result => result.startTime.getTime())));
+    const record: RunRecord = {
+      id: `${RUN_FILE_PREFIX}${start.toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(3).toString('hex')}`,
+      startTime: start,
+      environment: ConfigManager.getInstance().getEnvironmentName(),
+      results: SecretMasker.getInstance().maskValue(results)
+    };
+
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const filePath = path.join(this.dir, `${record.id}.json`);
+    await fs.promises.writeFile(filePath, JSON.stringify(record, serializeErrors, 2), 'utf8');
+    this.logger.info(`Run with ${results.length} results saved to ${filePath}`);
+
+    return record;
+  }
+
+  /**
+   * Load the most recent runs, oldest first
+   * Unreadable run files are skipped with a warning.
+   * @param limit Number of runs to load (default: the configured number of runs)
+   */
+  async loadRuns(limit: number = this.runs): Promise<RunRecord[]> {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+
+    // File names start with the run start time, so they sort chronologically
+    const files = (await fs.promises.readdir(this.dir))
+      .filter(file => file.startsWith(RUN_FILE_PREFIX) && file.endsWith('.json'))
+      .sort()
+      .slice(-limit);
+
+    const runs: RunRecord[] = [];
+    for (const file of files) {
+      try {
+        runs.push(reviveRun(JSON.parse(await fs.promises.readFile(path.join(this.dir, file), 'utf8')) as StoredRun));
+      } catch (error) {
+        this.logger.warn(`Skipping unreadable run file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return runs.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  /**
+   * Compute per-test statistics across the most recent runs
+   * @param limit Number of runs to analyse (default: the configured number of runs)
+   */
+  async getStats(limit: number = this.runs): Promise<TestHistoryStats[]> {
+    const byName: Map<string, TestResult[]> = new Map();
+    for (const run of await this.loadRuns(limit)) {
+      for (const result of run.results) {
+        if (result.status === TestStatus.SKIPPED) {
+          continue;
+        }
+        byName.set(result.name, [...(byName.get(result.name) ?? []), result]);
+      }
+    }
+
+    return Array.from(byName.entries()).map(([name, results]) => this.computeStats(name, results));
+  }
+
+  /**
+   * Get the tests considered flaky across the most recent runs, the most unstable first
+   * @param limit Number of runs to analyse (default: the configured number of runs)
+   */
+  async getFlakyTests(limit: number = this.runs): Promise<TestHistoryStats[]> {
+    return (await this.getStats(limit))
+      .filter(stats => stats.isFlaky)
+      .sort((a, b) => b.flipRate - a.flipRate || b.flaky - a.flaky);
+  }
+
+  /**
+   * Compute the statistics of a test from its results, oldest first
+   */
+  private computeStats(name: string, results: TestResult[]): TestHistoryStats {
+    const outcomes = results.map(result => !FAILURE_STATUSES.includes(result.status));
+    const flips = outcomes.slice(1).filter((passed, index) => passed !== outcomes[index]).length;
+    const flipRate = results.length > 1 ? flips / (results.length - 1) : 0;
+    const flaky = results.filter(result => result.status === TestStatus.FLAKY).length;
+    const durations = results.map(result => result.duration);
+
+    return {
+      name,
+      runs: results.length,
+      passed: results.filter(result => result.status === TestStatus.PASSED).length,
+      failed: results.filter(result => FAILURE_STATUSES.includes(result.status)).length,
+      flaky,
+      passRate: outcomes.filter(Boolean).length / results.length,
+      flipRate,
+      averageDuration: durations.reduce((sum, duration) => sum + duration, 0) / durations.length,
+      durationTrend: slope(durations),
+      durations,
+      lastStatus: results[results.length - 1].status,
+      isFlaky: flaky > 0 || (flips > 0 && flipRate >= this.flipThreshold)
+    };
+  }
+}
+
+/**
+ * JSON replacer keeping the name, message and stack of errors
+ */
+function serializeErrors(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { ...value, name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * Restore dates and errors of a parsed run file, including those of attempts and steps
+ */
+function reviveRun(data: StoredRun): RunRecord {
+  if (typeof data.startTime !== 'string' || !Array.isArray(data.results)) {
+    throw new Error('not a run file');
+  }
+
+  return {
+    id: data.id,
+    startTime: new Date(data.startTime),
+    environment: data.environment,
+    results: data.results.map(result => ({
+      ...result,
+      startTime: new Date(result.startTime),
+      endTime: new Date(result.endTime),
+      error: reviveError(result.error),
+      attempts: result.attempts?.map(attempt => ({
+        ...attempt,
+        startTime: new Date(attempt.startTime),
+        endTime: new Date(attempt.endTime),
+        error: reviveError(attempt.error),
+        steps: attempt.steps?.map(reviveStep)
+      })),
+      steps: result.steps?.map(reviveStep),
+      hookFailures: result.hookFailures?.map(failure => ({ ...failure, error: reviveError(failure.error)! }))
+    }))
+  };
+}
+
+/**
+ * Restore the dates and errors of a stored step and its nested steps
+ */
+function reviveStep(step: StoredStep): TestStep {
+  return {
+    ...step,
+    startTime: new Date(step.startTime),
+    endTime: new Date(step.endTime),
+    error: reviveError(step.error),
+    steps: (step.steps ?? []).map(reviveStep)
+  };
+}
+
+/**
+ * Restore a stored error
+ */
+function reviveError(error?: StoredError): Error | undefined {
+  return error ? Object.assign(new Error(error.message), error) : undefined;
+}
+
+/**
+ * Least squares slope of values measured at consecutive points
+ */
+function slope(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const meanX = (values.length - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / values.length;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, index) => {
+    numerator += (index - meanX) * (value - meanY);
+    denominator += (index - meanX) ** 2;
+  });
+  return numerator / denominator;
+}
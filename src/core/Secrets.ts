@@ -0,0 +1,175 @@
+/**
+ * Secrets
+ * Resolves `secret://<provider>/<path>` references found in environment credentials
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export const SECRET_REFERENCE_PREFIX = 'secret://';
+
+/**
+ * Name of the environment variable holding the key of encrypted secret files
+ */
+export const DEFAULT_SECRETS_KEY_VARIABLE = 'SECRETS_KEY';
+
+/**
+ * Source of secret values, selected by the provider part of a reference
+ * Providers are synchronous, like the rest of configuration loading; values from remote
+ * vaults should be fetched before the run (e.g. into an encrypted file or variables).
+ */
+export interface SecretProvider {
+  // Provider part of the reference, e.g. 'env' in secret://env/NAME
+  readonly name: string;
+  /**
+   * Get a secret value
+   * @param reference Reference part after `secret://<name>/`
+   */
+  resolve(reference: string): string;
+}
+
+/**
+ * Error raised when a secret reference cannot be resolved
+ */
+export class SecretError extends Error {
+  reference: string;
+
+  constructor(message: string, reference: string) {
+    super(`${message} (${reference})`);
+    this.name = 'SecretError';
+    this.reference = reference;
+  }
+}
+
+/**
+ * Check whether a value is a secret reference
+ * @param value Value to check
+ */
+export function isSecretReference(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(SECRET_REFERENCE_PREFIX);
+}
+
+/**
+ * Provider reading secrets from environment variables: `secret://env/NAME`
+ */
+export class EnvSecretProvider implements SecretProvider {
+  readonly name = 'env';
+
+  /**
+   * @param variables Function returning the value of an environment variable
+   */
+  constructor(private readonly variables: (name: string) => string | undefined = name => process.env[name]) {}
+
+  resolve(reference: string): string {
+    const value = this.variables(reference);
+    if (value === undefined || value === '') {
+      throw new SecretError(`Environment variable ${reference} is not set`, `${SECRET_REFERENCE_PREFIX}${this.name}/${reference}`);
+    }
+    return value;
+  }
+}
+
+/**
+ * Provider reading secrets from files encrypted with `encryptSecrets`: `secret://file/.secrets.enc#key`
+ * The file path is relative to the working directory; the key comes from an environment variable.
+ */
+export class FileSecretProvider implements SecretProvider {
+  readonly name = 'file';
+  private files: Map<string, { key: string; modified: number; secrets: Record<string, string> }> = new Map();
+
+  /**
+   * @param key Function returning the key that unlocks the files
+   * @param keyVariable Name of the variable holding the key, for error messages
+   */
+  constructor(
+    private readonly key: () => string | undefined = () => process.env[DEFAULT_SECRETS_KEY_VARIABLE],
+    private readonly keyVariable: string = DEFAULT_SECRETS_KEY_VARIABLE
+  ) {}
+
+  resolve(reference: string): string {
+    const fullReference = `${SECRET_REFERENCE_PREFIX}${this.name}/${reference}`;
+    const separator = reference.lastIndexOf('#');
+    if (separator <= 0 || separator === reference.length - 1) {
+      throw new SecretError('File secret references must look like secret://file/<path>#<key>', fullReference);
+    }
+
+    const file = path.resolve(process.cwd(), reference.substring(0, separator));
+    const name = reference.substring(separator + 1);
+    const secrets = this.readFile(file, fullReference);
+
+    if (!(name in secrets)) {
+      throw new SecretError(`Secret '${name}' is not defined in ${reference.substring(0, separator)}`, fullReference);
+    }
+    return secrets[name];
+  }
+
+  /**
+   * Decrypt a secrets file and keep its contents in memory until the file or the key changes
+   */
+  private readFile(file: string, reference: string): Record<string, string> {
+    const key = this.key();
+    if (!key) {
+      throw new SecretError(`Environment variable ${this.keyVariable} with the secrets key is not set`, reference);
+    }
+    if (!fs.existsSync(file)) {
+      throw new SecretError(`Secrets file ${file} does not exist`, reference);
+    }
+
+    const modified = fs.statSync(file).mtimeMs;
+    const cached = this.files.get(file);
+    if (cached && cached.key === key && cached.modified === modified) {
+      return cached.secrets;
+    }
+
+    try {
+      const secrets = decryptSecrets(fs.readFileSync(file, 'utf8'), key);
+      this.files.set(file, { key, modified, secrets });
+      return secrets;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new SecretError(`Cannot decrypt ${file}: ${reason}`, reference);
+    }
+  }
+}
+
+const FORMAT_VERSION = 'v1';
+
+/**
+ * Encrypt secrets for a `secret://file/...` provider (AES-256-GCM, key derived with scrypt)
+ * @param secrets Secret values by name
+ * @param key Key that will unlock the file
+ */
+export function encryptSecrets(secrets: Record<string, string>, key: string): string {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', crypto.scryptSync(key, salt, 32), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+
+  return [FORMAT_VERSION, salt, iv, cipher.getAuthTag(), data]
+    .map(part => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':');
+}
+
+/**
+ * Decrypt the contents of a secrets file created by `encryptSecrets`
+ * @param content File contents
+ * @param key Key that unlocks the file
+ * @throws Error if the key is wrong or the file is damaged
+ */
+export function decryptSecrets(content: string, key: string): Record<string, string> {
+  const [version, ...parts] = content.trim().split(':');
+  if (version !== FORMAT_VERSION || parts.length !== 4) {
+    throw new Error('unsupported secrets file format');
+  }
+
+  const [salt, iv, tag, data] = parts.map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', crypto.scryptSync(key, salt, 32), iv);
+  decipher.setAuthTag(tag);
+
+  try {
+    const json = Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+    return JSON.parse(json) as Record<string, string>;
+  } catch {
+    throw new Error('wrong key or damaged file');
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Session Manager
+ * Logs in once per role and environment and reuses the saved Playwright storage state
+ */
+import fs from 'fs';
+import path from 'path';
+import { Browser, Page } from 'playwright';
+import { EnvironmentConfig } from './types';
+import { DEFAULT_SESSION_DIR, DEFAULT_SESSION_MAX_AGE } from './constants';
+import { ConfigManager } from './ConfigManager';
+import { Logger } from '@utils/Logger';
+
+/**
+ * Information passed to a login flow
+ */
+export interface LoginContext {
+  role: string;
+  environment?: EnvironmentConfig;
+  credentials: Record<string, string>;
+}
+
+/**
+ * Function performing the login through the UI (or API) on a fresh page
+ */
+export type LoginFlow = (page: Page, context: LoginContext) => Promise<void>;
+
+/**
+ * Session manager options
+ */
+export interface SessionOptions {
+  // Directory storing the saved sessions
+  storageDir?: string;
+  // Maximum age of a saved session in milliseconds
+  maxAge?: number;
+}
+
+interface StorageStateFile {
+  cookies?: Array<{ expires?: number }>;
+}
+
+export class SessionManager {
+  private static instance: SessionManager;
+  private static readonly DEFAULT_ROLE_FLOW = '*';
+
+  private loginFlows: Map<string, LoginFlow> = new Map();
+  private pendingLogins: Map<string, Promise<string>> = new Map();
+  private storageDir: string = DEFAULT_SESSION_DIR;
+  private maxAge: number = DEFAULT_SESSION_MAX_AGE;
+  private logger: Logger;
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    this.logger = new Logger('SessionManager');
+  }
+
+  /**
+   * Get the SessionManager instance
+   */
+  static getInstance(): SessionManager {
+    if (!SessionManager.instance) {
+      SessionManager.instance = new SessionManager();
+    }
+    return SessionManager.instance;
+  }
+
+  /**
+   * Configure session storage
+   * @param options Session options
+   */
+  configure(options: SessionOptions): void {
+    this.storageDir = options.storageDir ?? this.storageDir;
+    this.maxAge = options.maxAge ?? this.maxAge;
+  }
+
+  /**
+   * Register the login flow for a role
+   * @param flow Login flow
+   * @param role Role the flow logs in as (default: all roles without their own flow)
+   */
+  registerLoginFlow(flow: LoginFlow, role: string = SessionManager.DEFAULT_ROLE_FLOW): void {
+    this.loginFlows.set(role, flow);
+  }
+
+  /**
+   * Get the path of a valid storage state for a role, logging in if needed
+   * Concurrent requests for the same role share a single login.
+   * @param role Role to log in as
+   * @param browser Browser used to perform the login
+   */
+  async getStorageState(role: string, browser: Browser): Promise<string> {
+    const statePath = this.getStatePath(role);
+
+    if (this.isValid(statePath)) {
+      return statePath;
+    }
+
+    let pending = this.pendingLogins.get(statePath);
+    if (!pending) {
+      pending = this.login(role, browser, statePath).finally(() => this.pendingLogins.delete(statePath));
+      this.pendingLogins.set(statePath, pending);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Delete saved sessions so the next request logs in again
+   * @param role Role to invalidate (default: all roles of the current environment)
+   */
+  invalidate(role?: string): void {
+    const target = role ? this.getStatePath(role) : this.getSessionDir();
+    fs.rmSync(target, { recursive: true, force: true });
+  }
+
+  /**
+   * Get the directory holding the sessions of the current environment
+   * Overlays (e.g. tenants) get their own sessions, since they may use other credentials.
+   */
+  private getSessionDir(): string {
+    const config = ConfigManager.getInstance();
+    const environment = [config.getEnvironmentName(), ...config.getEnvironmentOverlays()].join('+');
+    return path.resolve(process.cwd(), this.storageDir, environment);
+  }
+
+  /**
+   * Get the storage state path of a role in the current environment
+   */
+  private getStatePath(role: string): string {
+    return path.join(this.getSessionDir(), `${role.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+
+  /**
+   * Check whether a saved session exists and has not expired
+   */
+  private isValid(statePath: string): boolean {
+    if (!fs.existsSync(statePath)) {
+      return false;
+    }
+
+    if (Date.now() - fs.statSync(statePath).mtimeMs > this.maxAge) {
+      this.logger.info(`Saved session ${statePath} is older than ${this.maxAge}ms`);
+      return false;
+    }
+
+    try {
+      const state = JSON.parse(fs.readFileSync(statePath, 'utf8')) as StorageStateFile;
+      const now = Date.now() / 1000;
+      // Session cookies have expires = -1
+      const expired = (state.cookies ?? []).some(cookie => (cookie.expires ?? -1) > 0 && cookie.expires! < now);
+      if (expired) {
+        this.logger.info(`Saved session ${statePath} has expired cookies`);
+      }
+      return !expired;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Log in with the registered flow and save the storage state
+   */
+  private async login(role: string, browser: Browser, statePath: string): Promise<string> {
+    const flow = this.loginFlows.get(role) ?? this.loginFlows.get(SessionManager.DEFAULT_ROLE_FLOW);
+    if (!flow) {
+      throw new Error(`No login flow registered for role '${role}'`);
+    }
+
+    const environment = ConfigManager.getInstance().getCurrentEnvironment();
+    this.logger.info(`Logging in as '${role}' on environment '${environment?.name ?? 'unknown'}'`);
+
+    const context = await browser.newContext({ baseURL: environment?.baseUrl || undefined });
+    try {
+      const page = await context.newPage();
+      await flow(page, { role, environment, credentials: environment?.credentials ?? {} });
+
+      fs.mkdirSync(path.dirname(statePath), { recursive: true });
+      await context.storageState({ path: statePath });
+      this.logger.info(`Saved session for '${role}' to ${statePath}`);
+
+      return statePath;
+    } finally {
+      await context.close();
+    }
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Soft Assertions
+ * Collects failed checks without stopping the test, failing it once at the end
+ */
+import { Locator } from 'playwright';
+import { Attachment } from './types';
+import { StepRecorder } from './StepRecorder';
+
+/**
+ * A failed soft check
+ */
+export interface SoftAssertionFailure {
+  message: string;
+  // Titles of the steps running when the check failed, outermost first
+  stepPath: string[];
+  screenshot?: Attachment;
+  error?: Error;
+}
+
+/**
+ * Function capturing a screenshot for a failed check
+ */
+export type SoftAssertionScreenshotFn = (index: number) => Promise<Attachment | undefined>;
+
+/**
+ * Error aggregating all failed soft checks of a test
+ */
+export class SoftAssertionError extends Error {
+  failures: SoftAssertionFailure[];
+
+  constructor(failures: SoftAssertionFailure[]) {
+    super(describeFailures(failures));
+    this.name = 'SoftAssertionError';
+    this.failures = failures;
+  }
+}
+
+/**
+ * Soft assertions collector
+ * Every check returns whether it passed, so tests can branch on it if needed.
+ */
+export class SoftAssertions {
+  private failures: SoftAssertionFailure[] = [];
+
+  /**
+   * Create a new collector
+   * @param screenshot Function capturing a screenshot when a check fails
+   */
+  constructor(private readonly screenshot?: SoftAssertionScreenshotFn) {}
+
+  /**
+   * Check a boolean condition
+   * @param condition Condition that must hold
+   * @param message Description of the failed check
+   */
+  async check(condition: boolean, message: string): Promise<boolean> {
+    if (!condition) {
+      await this.fail(message);
+    }
+    return condition;
+  }
+
+  /**
+   * Run an assertion function (e.g. Playwright `expect`) and record it if it throws
+   * @param message Description of the check
+   * @param assertion Assertion to run
+   */
+  async that(message: string, assertion: () => unknown): Promise<boolean> {
+    try {
+      await assertion();
+      return true;
+    } catch (error) {
+      const cause = error instanceof Error ? error : new Error(String(error));
+      await this.fail(`${message}: ${cause.message}`, cause);
+      return false;
+    }
+  }
+
+  /**
+   * Check an `ApiAssertions` helper or any other predicate
+   * @example soft.api(ApiAssertions.hasStatus, response, 201)
+   * @param assertion Predicate to call
+   * @param args Predicate arguments
+   */
+  async api<A extends unknown[]>(assertion: (...args: A) => boolean, ...args: A): Promise<boolean> {
+    const passed = assertion(...args);
+    if (!passed) {
+      const [response, ...rest] = args;
+      const status =
+        typeof response === 'object' && response !== null && 'status' in response
+          ? ` (response status ${String(response.status)})`
+          : '';
+      const details = rest.length > 0 ? ` with ${rest.map(arg => JSON.stringify(arg)).join(', ')}` : '';
+      await this.fail(`ApiAssertions.${assertion.name || 'assertion'}${details} failed${status}`);
+    }
+    return passed;
+  }
+
+  /**
+   * Check that an element is visible
+   * @param locator Element locator
+   * @param message Description of the check
+   */
+  async visible(locator: Locator, message?: string): Promise<boolean> {
+    const visible = await locator.isVisible();
+    return this.check(visible, message ?? `Expected ${locator.toString()} to be visible`);
+  }
+
+  /**
+   * Check that an element is hidden or missing
+   * @param locator Element locator
+   * @param message Description of the check
+   */
+  async hidden(locator: Locator, message?: string): Promise<boolean> {
+    const hidden = await locator.isHidden();
+    return this.check(hidden, message ?? `Expected ${locator.toString()} to be hidden`);
+  }
+
+  /**
+   * Check that an element is enabled
+   * @param locator Element locator
+   * @param message Description of the check
+   */
+  async enabled(locator: Locator, message?: string): Promise<boolean> {
+    const enabled = await locator.isEnabled();
+    return this.check(enabled, message ?? `Expected ${locator.toString()} to be enabled`);
+  }
+
+  /**
+   * Check the text content of an element
+   * @param locator Element locator
+   * @param expected Exact text or pattern
+   * @param message Description of the check
+   */
+  async text(locator: Locator, expected: string | RegExp, message?: string): Promise<boolean> {
+    const actual = (await locator.textContent()) ?? '';
+    const matches = typeof expected === 'string' ? actual.trim() === expected : expected.test(actual);
+    return this.check(
+      matches,
+      message ?? `Expected ${locator.toString()} to have text ${String(expected)}, got "${actual.trim()}"`
+    );
+  }
+
+  /**
+   * Check the number of elements matching a locator
+   * @param locator Element locator
+   * @param expected Expected count
+   * @param message Description of the check
+   */
+  async count(locator: Locator, expected: number, message?: string): Promise<boolean> {
+    const actual = await locator.count();
+    return this.check(
+      actual === expected,
+      message ?? `Expected ${locator.toString()} to match ${expected} element(s), got ${actual}`
+    );
+  }
+
+  /**
+   * Get all failed checks
+   */
+  getFailures(): SoftAssertionFailure[] {
+    return [...this.failures];
+  }
+
+  /**
+   * Check whether any check has failed
+   */
+  hasFailures(): boolean {
+    return this.failures.length > 0;
+  }
+
+  /**
+   * Throw an aggregated error if any check has failed
+   * @throws SoftAssertionError listing every failed check
+   */
+  assertAll(): void {
+    if (this.failures.length > 0) {
+      throw new SoftAssertionError(this.failures);
+    }
+  }
+
+  /**
+   * Add the failed checks to an error that stopped the test before assertAll() was reached,
+   * so they are reported together with it
+   * @param error Error that stopped the test
+   * @returns The same error, its message and stack listing the failed checks
+   */
+  mergeInto(error: Error): Error {
+    if (this.failures.length === 0 || error instanceof SoftAssertionError) {
+      return error;
+    }
+
+    const message = `${error.message}\n\nAlso ${describeFailures(this.failures)}`;
+    if (error.message && error.stack?.includes(error.message)) {
+      error.stack = error.stack.replace(error.message, () => message);
+    }
+    error.message = message;
+    return error;
+  }
+
+  /**
+   * Record a failed check
+   */
+  private async fail(message: string, error?: Error): Promise<void> {
+    const failure: SoftAssertionFailure = {
+      message,
+      stepPath: StepRecorder.current()?.getCurrentPath() ?? [],
+      error
+    };
+    this.failures.push(failure);
+
+    if (this.screenshot) {
+      try {
+        failure.screenshot = await this.screenshot(this.failures.length);
+      } catch {
+        // A missing screenshot must not hide the failed check itself
+      }
+    }
+  }
+}
+
+/**
+ * List failed checks with their steps and screenshots
+ */
+function describeFailures(failures: SoftAssertionFailure[]): string {
+  const details = failures.map((failure, index) => {
+    const step = failure.stepPath.length > 0 ? ` [step: ${failure.stepPath.join(' > ')}]` : '';
+    const screenshot = failure.screenshot ? ` (screenshot: ${failure.screenshot.path})` : '';
+    return `  ${index + 1}) ${failure.message}${step}${screenshot}`;
+  });
+
+  return `${failures.length} soft assertion(s) failed:\n${details.join('\n')}`;
+}
@@ -0,0 +1,153 @@
+/**
+ * Step Recorder
+ * Records the tree of named test steps executed during a test attempt
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Locator, Page } from 'playwright';
+import { Attachment, StepOptions, TestStep } from './types';
+import { DEFAULT_SCREENSHOT_DIR, TestStatus } from './constants';
+import { ConfigManager } from './ConfigManager';
+
+/**
+ * Function capturing a screenshot for a step
+ */
+export type StepScreenshotFn = (step: TestStep) => Promise<Attachment>;
+
+export class StepRecorder {
+  private static readonly active = new AsyncLocalStorage<StepRecorder>();
+
+  private readonly steps: TestStep[] = [];
+  private readonly stack = new AsyncLocalStorage<TestStep[]>();
+
+  /**
+   * Get the recorder of the test running in the current async context
+   */
+  static current(): StepRecorder | undefined {
+    return StepRecorder.active.getStore();
+  }
+
+  /**
+   * Run a function with this recorder as the current one,
+   * so page objects and components record their steps into it
+   * @param fn Function to run
+   */
+  async record<T>(fn: () => Promise<T>): Promise<T> {
+    return StepRecorder.active.run(this, fn);
+  }
+
+  /**
+   * Run a step and record its outcome
+   * Steps started inside the body are recorded as nested steps.
+   * @param title Step title
+   * @param body Step body
+   * @param options Step options
+   * @param screenshot Function capturing a screenshot for the step
+   */
+  async step<T>(
+    title: string,
+    body: () => Promise<T>,
+    options: StepOptions = {},
+    screenshot?: StepScreenshotFn
+  ): Promise<T> {
+    const path = this.stack.getStore() ?? [];
+    const parent = path[path.length - 1];
+    const step: TestStep = {
+      title,
+      status: TestStatus.RUNNING,
+      startTime: new Date(),
+      endTime: new Date(),
+      duration: 0,
+      steps: []
+    };
+    (parent ? parent.steps : this.steps).push(step);
+
+    try {
+      const result = await this.stack.run([...path, step], body);
+      step.status = TestStatus.PASSED;
+      if (options.screenshot === true) {
+        await this.captureScreenshot(step, screenshot);
+      }
+      return result;
+    } catch (error) {
+      step.status = TestStatus.FAILED;
+      step.error = error instanceof Error ? error : new Error(String(error));
+      if (options.screenshot) {
+        await this.captureScreenshot(step, screenshot);
+      }
+      throw error;
+    } finally {
+      step.endTime = new Date();
+      step.duration = step.endTime.getTime() - step.startTime.getTime();
+    }
+  }
+
+  /**
+   * Get the recorded top-level steps
+   */
+  getSteps(): TestStep[] {
+    return this.steps;
+  }
+
+  /**
+   * Get titles of the steps currently running, outermost first
+   */
+  getCurrentPath(): string[] {
+    return (this.stack.getStore() ?? []).map(step => step.title);
+  }
+
+  /**
+   * Get titles leading to the innermost failed step, outermost first
+   */
+  getFailedPath(): string[] {
+    const path: string[] = [];
+    let steps = this.steps;
+
+    for (;;) {
+      const failed = [...steps].reverse().find(step => step.status === TestStatus.FAILED);
+      if (!failed) {
+        return path;
+      }
+      path.push(failed.title);
+      steps = failed.steps;
+    }
+  }
+
+  /**
+   * Capture a step screenshot, never failing the step because of it
+   */
+  private async captureScreenshot(step: TestStep, screenshot?: StepScreenshotFn): Promise<void> {
+    if (!screenshot) {
+      return;
+    }
+
+    try {
+      step.screenshot = await screenshot(step);
+    } catch {
+      // The page may already be closed; the step outcome matters more than its screenshot
+    }
+  }
+}
+
+/**
+ * Build a file-system friendly path for a step screenshot in the `screenshotsPath` directory
+ * @param owner Name of the test, page or component taking the screenshot
+ * @param step Step the screenshot belongs to
+ */
+export function stepScreenshotPath(owner: string, step: TestStep): string {
+  const slug = step.title.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+  const dir = ConfigManager.getInstance().getConfig<string>('screenshotsPath', DEFAULT_SCREENSHOT_DIR);
+  return `${dir}/${owner}_step_${slug}_${Date.now()}.png`;
+}
+
+/**
+ * Create a function capturing step screenshots of a page, or of a component's root element
+ * @param owner Name of the test, page or component taking the screenshot
+ * @param target Page or element to capture
+ */
+export function stepScreenshot(owner: string, target: Page | Locator): StepScreenshotFn {
+  return async (step: TestStep): Promise<Attachment> => {
+    const path = stepScreenshotPath(owner, step);
+    await target.screenshot({ path });
+    return { name: `Step Screenshot: ${step.title}`, path, contentType: 'image/png' };
+  };
+}
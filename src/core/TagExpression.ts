@@ -0,0 +1,230 @@
+/**
+ * Tag Expressions
+ * Boolean expressions over test tags used to select tests,
+ * e.g. `@smoke and not (@slow or @flaky)`
+ */
+
+type TagNode =
+  | { type: 'tag'; tag: string }
+  | { type: 'not'; operand: TagNode }
+  | { type: 'and' | 'or'; left: TagNode; right: TagNode };
+
+type Token =
+  | { type: 'tag'; value: string; position: number }
+  | { type: 'and' | 'or' | 'not' | '(' | ')'; position: number };
+
+/**
+ * Error thrown when a tag expression cannot be parsed
+ */
+export class TagExpressionError extends Error {
+  expression: string;
+  position: number;
+
+  constructor(message: string, expression: string, position: number) {
+    super(`${message} at position ${position} in tag expression "${expression}"`);
+    this.name = 'TagExpressionError';
+    this.expression = expression;
+    this.position = position;
+  }
+}
+
+/**
+ * Normalize a tag for comparison: the leading `@` is optional and case is ignored
+ * @param tag Tag to normalize
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^@/, '').toLowerCase();
+}
+
+/**
+ * Parsed tag expression
+ *
+ * Supports `and`, `or`, `not` (also `&&`, `||`, `!`) and parentheses.
+ * `not` binds tighter than `and`, which binds tighter than `or`.
+ * An empty expression matches every test.
+ */
+export class TagExpression {
+  private readonly source: string;
+  private readonly root: TagNode | null;
+
+  private constructor(source: string, root: TagNode | null) {
+    this.source = source;
+    this.root = root;
+  }
+
+  /**
+   * Parse a tag expression
+   * @param expression Expression to parse
+   * @throws TagExpressionError if the expression is malformed
+   */
+  static parse(expression: string): TagExpression {
+    const parser = new TagExpressionParser(expression);
+    return new TagExpression(expression.trim(), parser.parse());
+  }
+
+  /**
+   * Check whether a set of tags satisfies the expression
+   * @param tags Tags of a test
+   */
+  matches(tags: string[] = []): boolean {
+    if (!this.root) {
+      return true;
+    }
+    const normalized = new Set(tags.map(normalizeTag));
+    return evaluate(this.root, normalized);
+  }
+
+  /**
+   * Check whether the expression is empty and matches every test
+   */
+  isEmpty(): boolean {
+    return this.root === null;
+  }
+
+  /**
+   * Get the original expression
+   */
+  toString(): string {
+    return this.source;
+  }
+}
+
+/**
+ * Evaluate a node against a set of normalized tags
+ */
+function evaluate(node: TagNode, tags: Set<string>): boolean {
+  switch (node.type) {
+    case 'tag':
+      return tags.has(node.tag);
+    case 'not':
+      return !evaluate(node.operand, tags);
+    case 'and':
+      return evaluate(node.left, tags) && evaluate(node.right, tags);
+    case 'or':
+      return evaluate(node.left, tags) || evaluate(node.right, tags);
+  }
+}
+
+/**
+ * Recursive descent parser for tag expressions
+ */
+class TagExpressionParser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly expression: string) {
+    this.tokens = this.tokenize();
+  }
+
+  parse(): TagNode | null {
+    if (this.tokens.length === 0) {
+      return null;
+    }
+
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new TagExpressionError(`Unexpected "${this.describe(extra)}"`, this.expression, extra.position);
+    }
+    return node;
+  }
+
+  private parseOr(): TagNode {
+    let left = this.parseAnd();
+    while (this.peek()?.type === 'or') {
+      this.index++;
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): TagNode {
+    let left = this.parseNot();
+    while (this.peek()?.type === 'and') {
+      this.index++;
+      left = { type: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): TagNode {
+    if (this.peek()?.type === 'not') {
+      this.index++;
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): TagNode {
+    const token = this.tokens[this.index++];
+
+    if (!token) {
+      throw new TagExpressionError('Unexpected end of expression', this.expression, this.expression.length);
+    }
+
+    if (token.type === 'tag') {
+      return { type: 'tag', tag: normalizeTag(token.value) };
+    }
+
+    if (token.type === '(') {
+      const node = this.parseOr();
+      const closing = this.tokens[this.index++];
+      if (closing?.type !== ')') {
+        throw new TagExpressionError(
+          'Missing closing parenthesis',
+          this.expression,
+          closing?.position ?? this.expression.length
+        );
+      }
+      return node;
+    }
+
+    throw new TagExpressionError(`Unexpected "${this.describe(token)}"`, this.expression, token.position);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'tag' ? token.value : token.type;
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    // Tags end at operator characters, so `@a&&@b` is two tags
+    const pattern = /\s*(\(|\)|&&|\|\||!|[&|]|[^\s()!&|]+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(this.expression)) !== null) {
+      const value = match[1];
+      const position = match.index + match[0].indexOf(value);
+
+      switch (value.toLowerCase()) {
+        case '(':
+        case ')':
+          tokens.push({ type: value as '(' | ')', position });
+          break;
+        case 'and':
+        case '&&':
+          tokens.push({ type: 'and', position });
+          break;
+        case 'or':
+        case '||':
+          tokens.push({ type: 'or', position });
+          break;
+        case 'not':
+        case '!':
+          tokens.push({ type: 'not', position });
+          break;
+        case '&':
+        case '|':
+          throw new TagExpressionError(`Unknown operator "${value}" (use "${value}${value}")`, this.expression, position);
+        default:
+          tokens.push({ type: 'tag', value, position });
+      }
+    }
+
+    return tokens;
+  }
+}
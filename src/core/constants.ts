@@ -5,8 +5,15 @@
 export const DEFAULT_TIMEOUT = 30000; // 30 seconds
 export const DEFAULT_RETRY_COUNT = 3;
 export const DEFAULT_RETRY_INTERVAL = 1000; // 1 second
+export const DEFAULT_HOOK_TIMEOUT = 30000; // 30 seconds
 export const DEFAULT_SCREENSHOT_DIR = './screenshots';
+export const DEFAULT_TRACE_DIR = './traces';
+export const DEFAULT_VIDEO_DIR = './videos';
+export const DEFAULT_SESSION_DIR = './.auth';
+export const DEFAULT_SESSION_MAX_AGE = 60 * 60 * 1000; // 1 hour
 export const DEFAULT_REPORT_DIR = './reports';
+export const DEFAULT_HISTORY_DIR = './test-history';
+export const DEFAULT_HISTORY_RUNS = 20;
 export const DEFAULT_LOG_LEVEL = 'info';
 
 export enum LogLevel {
@@ -21,5 +28,10 @@ export enum TestStatus {
   FAILED = 'failed',
   SKIPPED = 'skipped',
   PENDING = 'pending',
-  RUNNING = 'running'
+  RUNNING = 'running',
+  FLAKY = 'flaky',
+  TIMED_OUT = 'timedOut'
 }
+
+// Statuses of tests that did not pass
+export const FAILURE_STATUSES: readonly TestStatus[] = [TestStatus.FAILED, TestStatus.TIMED_OUT];
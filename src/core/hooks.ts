@@ -2,7 +2,34 @@
  * Hooks System
  * Provides a way to extend the framework with custom behavior
  */
-import { BeforeAllHook, AfterAllHook, BeforeEachHook, AfterEachHook, TestConfig, TestResult } from './types';
+import {
+  BeforeAllHook,
+  AfterAllHook,
+  BeforeEachHook,
+  AfterEachHook,
+  HookFailure,
+  HookHandle,
+  HookOptions,
+  HookType,
+  TestConfig,
+  TestResult
+} from './types';
+import { DEFAULT_HOOK_TIMEOUT } from './constants';
+import { normalizeTag } from './TagExpression';
+import { runWithTimeout } from './timeout';
+import { Logger } from '@utils/Logger';
+
+type HookFunction = BeforeAllHook | AfterAllHook | BeforeEachHook | AfterEachHook;
+
+interface RegisteredHook {
+  id: number;
+  type: HookType;
+  fn: HookFunction;
+  name: string;
+  tags: string[];
+  priority: number;
+  timeout: number;
+}
 
 /**
  * Hook Manager class to register and execute hooks
@@ -10,15 +37,16 @@ import { BeforeAllHook, AfterAllHook, BeforeEachHook, AfterEachHook, TestConfig,
 export class HookManager {
   private static instance: HookManager;
 
-  private beforeAllHooks: BeforeAllHook[] = [];
-  private afterAllHooks: AfterAllHook[] = [];
-  private beforeEachHooks: BeforeEachHook[] = [];
-  private afterEachHooks: AfterEachHook[] = [];
+  private hooks: RegisteredHook[] = [];
+  private nextId = 0;
+  private logger: Logger;
 
   /**
    * Private constructor for singleton pattern
    */
-  private constructor() {}
+  private constructor() {
+    this.logger = new Logger('HookManager');
+  }
 
   /**
    * Get HookManager instance
@@ -33,75 +61,141 @@ export class HookManager {
   /**
    * Register a hook to run before all tests
    */
-  registerBeforeAll(hook: BeforeAllHook): void {
-    this.beforeAllHooks.push(hook);
+  registerBeforeAll(hook: BeforeAllHook, options: HookOptions = {}): HookHandle {
+    return this.register('beforeAll', hook, options);
   }
 
   /**
    * Register a hook to run after all tests
    */
-  registerAfterAll(hook: AfterAllHook): void {
-    this.afterAllHooks.push(hook);
+  registerAfterAll(hook: AfterAllHook, options: HookOptions = {}): HookHandle {
+    return this.register('afterAll', hook, options);
   }
 
   /**
    * Register a hook to run before each test
    */
-  registerBeforeEach(hook: BeforeEachHook): void {
-    this.beforeEachHooks.push(hook);
+  registerBeforeEach(hook: BeforeEachHook, options: HookOptions = {}): HookHandle {
+    return this.register('beforeEach', hook, options);
   }
 
   /**
    * Register a hook to run after each test
    */
-  registerAfterEach(hook: AfterEachHook): void {
-    this.afterEachHooks.push(hook);
+  registerAfterEach(hook: AfterEachHook, options: HookOptions = {}): HookHandle {
+    return this.register('afterEach', hook, options);
   }
 
   /**
    * Execute all before all hooks
+   * @param tags Tags of the tests in the run
    */
-  async runBeforeAll(): Promise<void> {
-    for (const hook of this.beforeAllHooks) {
-      await hook();
-    }
+  async runBeforeAll(tags: string[] = []): Promise<HookFailure[]> {
+    return this.execute('beforeAll', tags, true, hook => (hook as BeforeAllHook)());
   }
 
   /**
    * Execute all after all hooks
+   * @param tags Tags of the tests in the run
    */
-  async runAfterAll(): Promise<void> {
-    for (const hook of this.afterAllHooks) {
-      await hook();
-    }
+  async runAfterAll(tags: string[] = []): Promise<HookFailure[]> {
+    return this.execute('afterAll', tags, false, hook => (hook as AfterAllHook)());
   }
 
   /**
    * Execute all before each hooks
+   * @param config Configuration of the test about to run
    */
-  async runBeforeEach(config: TestConfig): Promise<void> {
-    for (const hook of this.beforeEachHooks) {
-      await hook(config);
-    }
+  async runBeforeEach(config: TestConfig): Promise<HookFailure[]> {
+    return this.execute('beforeEach', config.tags ?? [], true, hook =>
+      (hook as BeforeEachHook)(config)
+    );
   }
 
   /**
    * Execute all after each hooks
+   * @param result Result of the finished test
+   * @param tags Tags of the finished test
    */
-  async runAfterEach(result: TestResult): Promise<void> {
-    for (const hook of this.afterEachHooks) {
-      await hook(result);
-    }
+  async runAfterEach(result: TestResult, tags: string[] = []): Promise<HookFailure[]> {
+    return this.execute('afterEach', tags, false, fn => fn(result));
   }
 
   /**
    * Clear all registered hooks
    */
   clearHooks(): void {
-    this.beforeAllHooks = [];
-    this.afterAllHooks = [];
-    this.beforeEachHooks = [];
-    this.afterEachHooks = [];
+    this.hooks = [];
+  }
+
+  /**
+   * Store a hook and return a handle that removes it again
+   */
+  private register(type: HookType, fn: HookFunction, options: HookOptions): HookHandle {
+    const hook: RegisteredHook = {
+      id: this.nextId++,
+      type,
+      fn,
+      name: options.name || fn.name || type,
+      tags: options.tags ?? [],
+      priority: options.priority ?? 0,
+      timeout: options.timeout ?? DEFAULT_HOOK_TIMEOUT
+    };
+    this.hooks.push(hook);
+
+    return {
+      unregister: (): void => {
+        this.hooks = this.hooks.filter(registered => registered !== hook);
+      }
+    };
+  }
+
+  /**
+   * Get hooks of a type applicable to the given tags, ordered by priority.
+   * Hooks with equal priority keep their registration order.
+   */
+  private getHooks(type: HookType, tags: string[]): RegisteredHook[] {
+    const testTags = new Set(tags.map(normalizeTag));
+    return this.hooks
+      .filter(hook => hook.type === type)
+      .filter(hook => hook.tags.length === 0 || hook.tags.some(tag => testTags.has(normalizeTag(tag))))
+      .sort((a, b) => b.priority - a.priority || a.id - b.id);
+  }
+
+  /**
+   * Execute hooks one by one, collecting failures instead of throwing
+   * @param stopOnFailure Skip the remaining hooks after the first failure
+   */
+  private async execute(
+    type: HookType,
+    tags: string[],
+    stopOnFailure: boolean,
+    invoke: (fn: HookFunction) => Promise<void>
+  ): Promise<HookFailure[]> {
+    const failures: HookFailure[] = [];
+
+    for (const hook of this.getHooks(type, tags)) {
+      try {
+        await runWithTimeout(
+          () => invoke(hook.fn),
+          hook.timeout,
+          `${type} hook "${hook.name}" timed out after ${hook.timeout}ms`
+        );
+      } catch (error) {
+        this.logger.error(`${type} hook "${hook.name}" failed`, error);
+        failures.push({
+          hook: type,
+          name: hook.name,
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+
+        if (stopOnFailure) {
+          break;
+        }
+      }
+    }
+
+    return failures;
   }
 }
 
@@ -112,27 +206,27 @@ export class HookManager {
 /**
  * Register a hook to run before all tests
  */
-export function beforeAll(hook: BeforeAllHook): void {
-  HookManager.getInstance().registerBeforeAll(hook);
+export function beforeAll(hook: BeforeAllHook, options?: HookOptions): HookHandle {
+  return HookManager.getInstance().registerBeforeAll(hook, options);
 }
 
 /**
  * Register a hook to run after all tests
  */
-export function afterAll(hook: AfterAllHook): void {
-  HookManager.getInstance().registerAfterAll(hook);
+export function afterAll(hook: AfterAllHook, options?: HookOptions): HookHandle {
+  return HookManager.getInstance().registerAfterAll(hook, options);
 }
 
 /**
  * Register a hook to run before each test
  */
-export function beforeEach(hook: BeforeEachHook): void {
-  HookManager.getInstance().registerBeforeEach(hook);
+export function beforeEach(hook: BeforeEachHook, options?: HookOptions): HookHandle {
+  return HookManager.getInstance().registerBeforeEach(hook, options);
 }
 
 /**
  * Register a hook to run after each test
  */
-export function afterEach(hook: AfterEachHook): void {
-  HookManager.getInstance().registerAfterEach(hook);
+export function afterEach(hook: AfterEachHook, options?: HookOptions): HookHandle {
+  return HookManager.getInstance().registerAfterEach(hook, options);
 }
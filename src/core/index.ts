@@ -34,9 +34,22 @@ export const DEFAULT_TIMEOUT = 30000; // 30 секунд
 // Re-export all core components
 export * from './BaseTest';
 export * from './ConfigManager';
+export * from './ConfigSchema';
+export * from './ConfigLoader';
+export * from './Secrets';
 export * from './BaseReporter';
 export * from './BaseFixture';
 export * from './hooks';
+export * from './TagExpression';
+export * from './StepRecorder';
+export * from './SoftAssertions';
+export * from './timeout';
+export * from './tracing';
+export * from './DataDriven';
+export * from './SessionManager';
+export * from './RunHistory';
+export * from './FailureClusters';
+export * from './Quarantine';
 export * from './types';
 export * from './constants';
 
@@ -0,0 +1,88 @@
+/**
+ * Timeout utilities
+ * Bound asynchronous work by a wall-clock budget with cooperative cancellation
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Time budget of a runWithTimeout call
+ */
+interface TimeBudget {
+  // Whether the work bounds its own running time
+  selfTimed: boolean;
+}
+
+// Budget of the innermost runWithTimeout call running the current code
+const budgets = new AsyncLocalStorage<TimeBudget>();
+
+/**
+ * Error raised when an operation exceeds its time budget
+ */
+export class TimeoutError extends Error {
+  timeout: number;
+
+  constructor(message: string, timeout: number) {
+    super(message);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Run a function with a time budget
+ *
+ * The function receives an AbortSignal that is aborted with a TimeoutError once
+ * the budget runs out. The returned promise rejects at that moment even if the
+ * function ignores the signal; the function itself keeps running in the background.
+ * Work that declared itself self-timed (see declareSelfTimed()) is waited for instead.
+ * @param fn Function to run
+ * @param timeout Time budget in milliseconds (0 or less disables the limit)
+ * @param message Message of the TimeoutError
+ * @param onTimeout Callback invoked when the budget runs out, e.g. to release resources
+ */
+export async function runWithTimeout<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  timeout: number,
+  message: string,
+  onTimeout?: () => void
+): Promise<T> {
+  const controller = new AbortController();
+  const budget: TimeBudget = { selfTimed: false };
+  const run = (): Promise<T> => budgets.run(budget, () => fn(controller.signal));
+
+  if (timeout <= 0) {
+    return run();
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      if (budget.selfTimed) {
+        return;
+      }
+      const error = new TimeoutError(message, timeout);
+      controller.abort(error);
+      onTimeout?.();
+      reject(error);
+    }, timeout);
+  });
+
+  try {
+    return await Promise.race([run(), timeoutPromise]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Declare that the work running in the current async context bounds its own running time,
+ * e.g. BaseTest.run() with its phase timeouts that also close the browser.
+ * The enclosing runWithTimeout call then waits for the work to finish instead of
+ * abandoning it with its resources still open.
+ */
+export function declareSelfTimed(): void {
+  const budget = budgets.getStore();
+  if (budget) {
+    budget.selfTimed = true;
+  }
+}
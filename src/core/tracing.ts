@@ -0,0 +1,32 @@
+/**
+ * Trace recording policy
+ * Decides which test attempts are traced and which of their traces are kept
+ */
+import { TraceMode } from './types';
+
+/**
+ * Check whether an attempt has to be traced
+ * @param mode Configured trace mode
+ * @param retry Retry number of the attempt (0 for the first run)
+ */
+export function shouldRecordTrace(mode: TraceMode | undefined, retry: number): boolean {
+  switch (mode) {
+    case 'on':
+    case 'retain-on-failure':
+      return true;
+    case 'on-first-retry':
+      return retry === 1;
+    case 'off':
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check whether the trace of a finished attempt is kept
+ * @param mode Configured trace mode
+ * @param failed Whether the attempt did not pass
+ */
+export function shouldKeepTrace(mode: TraceMode | undefined, failed: boolean): boolean {
+  return mode !== 'retain-on-failure' || failed;
+}
@@ -8,16 +8,126 @@ import { Page, BrowserContext, Browser } from 'playwright';
  * Base configuration interface for all tests
  */
 export interface TestConfig {
+  // Time budget of the test body; setup and teardown default to it as well
   timeout?: number;
+  setupTimeout?: number;
+  teardownTimeout?: number;
   retries?: number;
   tags?: string[];
   screenshot?: boolean;
   video?: boolean;
+  trace?: TraceMode;
   baseUrl?: string;
   headless?: boolean;
   browserName?: 'chromium' | 'firefox' | 'webkit';
   viewport?: { width: number; height: number };
+  slowMo?: number;
   logLevel?: LogLevel;
+  // Role whose saved login session the browser context starts with
+  role?: string;
+  // Skip the test; a string gives the reason
+  skip?: boolean | string | ConditionalAnnotation;
+  // Skip the test as known to be broken; a string gives the reason
+  fixme?: boolean | string | ConditionalAnnotation;
+  // Expect the test to fail: a failing test passes, a passing test fails
+  fail?: boolean | string | ConditionalAnnotation;
+}
+
+/**
+ * Test annotation types
+ */
+export type AnnotationType = 'skip' | 'fixme' | 'fail';
+
+/**
+ * Annotation describing why a test was skipped or is expected to fail
+ */
+export interface TestAnnotation {
+  type: AnnotationType;
+  description?: string;
+}
+
+/**
+ * Information available to skip conditions
+ */
+export interface SkipContext {
+  browserName?: 'chromium' | 'firefox' | 'webkit';
+  environment: string;
+  tags: string[];
+}
+
+/**
+ * Predicate deciding whether an annotation applies
+ */
+export type SkipCondition = (context: SkipContext) => boolean;
+
+/**
+ * Annotation applied only when its condition holds
+ */
+export interface ConditionalAnnotation {
+  when: SkipCondition;
+  reason?: string;
+}
+
+/**
+ * When to record a Playwright trace for a test attempt
+ * - off: never record
+ * - on: record and keep a trace for every attempt
+ * - retain-on-failure: record every attempt, keep traces of failed attempts only
+ * - on-first-retry: record only the first retry of a failed test
+ */
+export type TraceMode = 'off' | 'on' | 'retain-on-failure' | 'on-first-retry';
+
+/**
+ * Parameters of a single data-driven test variant
+ */
+export type TestParameters = Record<string, unknown>;
+
+/**
+ * Source of data-driven test parameters
+ * - file: JSON array or CSV file loaded through BaseFixture
+ * - table: inline list of parameter rows
+ * - matrix: cartesian product of browsers, viewports and extra parameter values
+ * Rows with `browser` or `viewport` keys also set the test browser and viewport.
+ */
+export type ParameterSource = (
+  | { type: 'file'; path: string }
+  | { type: 'table'; rows: TestParameters[] }
+  | {
+      type: 'matrix';
+      browsers?: Array<'chromium' | 'firefox' | 'webkit'>;
+      viewports?: Array<{ width: number; height: number }>;
+      parameters?: Record<string, unknown[]>;
+    }
+) & {
+  // Parameters included in the test name (default: all)
+  nameKeys?: string[];
+};
+
+/**
+ * Framework-wide configuration resolved by ConfigManager
+ */
+export interface GlobalConfig {
+  baseUrl?: string;
+  apiBaseUrl?: string;
+  timeout?: number;
+  retries?: number;
+  headless?: boolean;
+  browserType?: 'chromium' | 'firefox' | 'webkit';
+  viewport?: { width: number; height: number };
+  slowMo?: number;
+  screenshotsPath?: string;
+  videosPath?: string;
+  tracesPath?: string;
+  reportPath?: string;
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+  // Name of the current environment
+  env?: string;
+  // Where run history is kept and how many runs are analysed
+  history?: { path?: string; runs?: number };
+  // Tests that run but do not fail the build: exact names or patterns with * wildcards
+  quarantine?: string[];
+  // Reporters by name or module path, optionally with options
+  reporters?: Array<string | [string] | [string, Record<string, unknown>]>;
 }
 
 /**
@@ -30,6 +140,23 @@ export interface EnvironmentConfig {
   credentials?: Record<string, string>;
 }
 
+/**
+ * Settings an environment overlay may change
+ */
+export type EnvironmentOverlay = Partial<Omit<EnvironmentConfig, 'name'>>;
+
+/**
+ * Environment as declared in config/environments.*
+ * Settings missing from a definition are inherited from the environment it extends.
+ */
+export interface EnvironmentDefinition extends EnvironmentOverlay {
+  name: string;
+  // Name of the environment to inherit settings from
+  extends?: string;
+  // Named variants (e.g. per region or tenant) deep-merged on top when selected
+  overlays?: Record<string, EnvironmentOverlay>;
+}
+
 /**
  * Test result interface
  */
@@ -42,6 +169,60 @@ export interface TestResult {
   error?: Error;
   attachments?: Attachment[];
   metadata?: Record<string, any>;
+  retries?: number;
+  attempts?: TestAttempt[];
+  hookFailures?: HookFailure[];
+  steps?: TestStep[];
+}
+
+/**
+ * A test queued in ParallelTestRunner
+ */
+export interface TestTask {
+  id: string;
+  name: string;
+  tags?: string[];
+  testFn: () => Promise<TestResult>;
+  // Time budget of the task in milliseconds, overriding the runner timeout (0: no limit)
+  timeout?: number;
+  retryCount?: number;
+  result?: TestResult;
+}
+
+/**
+ * A single execution attempt of a test (the first run or one of its retries)
+ */
+export interface TestAttempt {
+  retry: number;
+  status: TestStatus;
+  duration: number;
+  startTime: Date;
+  endTime: Date;
+  error?: Error;
+  attachments: Attachment[];
+  steps?: TestStep[];
+}
+
+/**
+ * A named business step of a test, possibly containing nested steps
+ */
+export interface TestStep {
+  title: string;
+  status: TestStatus;
+  startTime: Date;
+  endTime: Date;
+  duration: number;
+  error?: Error;
+  screenshot?: Attachment;
+  steps: TestStep[];
+}
+
+/**
+ * Step options
+ */
+export interface StepOptions {
+  // Take a screenshot when the step ends (true) or only when it fails
+  screenshot?: boolean | 'only-on-failure';
 }
 
 /**
@@ -71,6 +252,37 @@ export type BeforeAllHook = () => Promise<void>;
 export type AfterAllHook = () => Promise<void>;
 export type BeforeEachHook = (config: TestConfig) => Promise<void>;
 export type AfterEachHook = (result: TestResult) => Promise<void>;
+export type HookType = 'beforeAll' | 'afterAll' | 'beforeEach' | 'afterEach';
+
+/**
+ * Hook registration options
+ */
+export interface HookOptions {
+  // Name used in logs and failure reports (defaults to the function name)
+  name?: string;
+  // Run only for tests having at least one of these tags (all tests if empty)
+  tags?: string[];
+  // Hooks with a higher priority run first (default: 0)
+  priority?: number;
+  // Maximum hook execution time in milliseconds
+  timeout?: number;
+}
+
+/**
+ * Handle returned by hook registration
+ */
+export interface HookHandle {
+  unregister(): void;
+}
+
+/**
+ * Failure of a single hook, reported against the test or run it belongs to
+ */
+export interface HookFailure {
+  hook: HookType;
+  name: string;
+  error: Error;
+}
 
 /**
  * Reporter options
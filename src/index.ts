@@ -12,6 +12,7 @@ export * from './mobile';
 export * from './performance';
 export * from './utils';
 export * from './config';
+export * from './reporters';
 
 // Версия фреймворка
 export const VERSION = '1.0.0';
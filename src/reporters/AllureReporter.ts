@@ -0,0 +1,398 @@
+/**
+ * Allure Reporter
+ * Writes test results as allure-results files, to be rendered by the Allure command line or a CI plugin
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BaseReporter } from '@core/BaseReporter';
+import { ConfigManager } from '@core/ConfigManager';
+import { Attachment, HookFailure, ReporterOptions, TestResult, TestStep } from '@core/types';
+import { TestStatus } from '@core/constants';
+import { Logger } from '@utils/Logger';
+
+/**
+ * Status of an Allure result or step
+ */
+export type AllureStatus = 'passed' | 'failed' | 'broken' | 'skipped' | 'unknown';
+
+/**
+ * Allure category, shown as a group of failures in the report
+ */
+export interface AllureCategory {
+  name: string;
+  matchedStatuses?: AllureStatus[];
+  messageRegex?: string;
+  traceRegex?: string;
+  flaky?: boolean;
+}
+
+export interface AllureStatusDetails {
+  message?: string;
+  trace?: string;
+  known?: boolean;
+  flaky?: boolean;
+}
+
+export interface AllureAttachment {
+  name: string;
+  // File name of the attachment inside the results directory
+  source: string;
+  type: string;
+}
+
+export interface AllureStep {
+  name: string;
+  status: AllureStatus;
+  statusDetails: AllureStatusDetails;
+  stage: 'finished';
+  start: number;
+  stop: number;
+  steps: AllureStep[];
+  attachments: AllureAttachment[];
+  parameters: Array<{ name: string; value: string }>;
+}
+
+/**
+ * Contents of a <uuid>-result.json file
+ */
+export interface AllureResult extends AllureStep {
+  uuid: string;
+  historyId: string;
+  fullName: string;
+  labels: Array<{ name: string; value: string }>;
+  links: Array<{ name?: string; url: string; type?: string }>;
+}
+
+/**
+ * Contents of a <uuid>-container.json file, grouping the results of a suite with its failed hooks
+ */
+export interface AllureContainer {
+  uuid: string;
+  name: string;
+  children: string[];
+  befores: AllureStep[];
+  afters: AllureStep[];
+  start: number;
+  stop: number;
+}
+
+/**
+ * Allure reporter options
+ */
+export interface AllureReporterOptions extends ReporterOptions {
+  // Name of the allure-results directory inside outputDir
+  resultsDir?: string;
+  // Categories written to categories.json
+  categories?: AllureCategory[];
+  // Extra entries of environment.properties
+  environmentInfo?: Record<string, string>;
+}
+
+export const DEFAULT_ALLURE_CATEGORIES: AllureCategory[] = [
+  { name: 'Product defects', matchedStatuses: ['failed'] },
+  { name: 'Test defects', matchedStatuses: ['broken'] },
+  { name: 'Flaky tests', matchedStatuses: ['passed', 'failed', 'broken'], flaky: true }
+];
+
+interface AllureSuite {
+  uuid: string;
+  name: string;
+  results: TestResult[];
+}
+
+export class AllureReporter extends BaseReporter {
+  declare protected options: AllureReporterOptions;
+  private suites: AllureSuite[] = [];
+  private currentSuite?: AllureSuite;
+  // Containers of the running suites; results of suites running side by side carry metadata.suite
+  private openSuites: Map<string, AllureSuite> = new Map();
+  private logger: Logger;
+
+  /**
+   * Creates a new AllureReporter instance
+   * @param options Reporter options
+   */
+  constructor(options: AllureReporterOptions = {}) {
+    super(options);
+    this.options = {
+      resultsDir: 'allure-results',
+      categories: DEFAULT_ALLURE_CATEGORIES,
+      ...this.options
+    };
+    this.logger = new Logger('AllureReporter');
+  }
+
+  /**
+   * Start collecting tests into a new container
+   */
+  onSuiteStart(suiteName: string, _totalTests: number): void {
+    this.currentSuite = { uuid: crypto.randomUUID(), name: suiteName, results: [] };
+    this.suites.push(this.currentSuite);
+    this.openSuites.set(suiteName, this.currentSuite);
+  }
+
+  /**
+   * Close the current container
+   */
+  onSuiteEnd(suiteName: string, _totalPassed: number, _totalFailed: number, _totalSkipped: number): void {
+    if (this.currentSuite === this.openSuites.get(suiteName)) {
+      this.currentSuite = undefined;
+    }
+    this.openSuites.delete(suiteName);
+  }
+
+  /**
+   * Add a test to the current container
+   */
+  onTestEnd(result: TestResult): void {
+    super.onTestEnd(result);
+
+    const suiteName: unknown = result.metadata?.suite;
+    const suite = typeof suiteName === 'string' ? this.openSuites.get(suiteName) : undefined;
+    if (suite) {
+      suite.results.push(this.results[this.results.length - 1]);
+      return;
+    }
+
+    if (!this.currentSuite) {
+      this.currentSuite = { uuid: crypto.randomUUID(), name: 'Test Results', results: [] };
+      this.suites.push(this.currentSuite);
+    }
+    // The masked copy stored by BaseReporter
+    this.currentSuite.results.push(this.results[this.results.length - 1]);
+  }
+
+  /**
+   * Clear test results and suites
+   */
+  clearResults(): void {
+    super.clearResults();
+    this.suites = [];
+    this.currentSuite = undefined;
+    this.openSuites.clear();
+  }
+
+  /**
+   * Write result, container and attachment files, environment.properties and categories.json
+   */
+  async generateReport(): Promise<void> {
+    const dir = this.getResultsDir();
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    for (const suite of this.suites.filter(item => item.results.length > 0)) {
+      const children: string[] = [];
+      for (const result of suite.results) {
+        const allureResult = await this.toAllureResult(suite, result);
+        children.push(allureResult.uuid);
+        await writeJson(path.join(dir, `${allureResult.uuid}-result.json`), allureResult);
+      }
+      await writeJson(path.join(dir, `${suite.uuid}-container.json`), this.toContainer(suite, children));
+    }
+
+    await fs.promises.writeFile(path.join(dir, 'environment.properties'), this.toEnvironmentProperties(), 'utf8');
+    await writeJson(path.join(dir, 'categories.json'), this.options.categories);
+    this.logger.info(`Allure results written to ${dir}`);
+  }
+
+  /**
+   * Get the directory the results are written to
+   */
+  getResultsDir(): string {
+    return path.join(this.options.outputDir!, this.options.resultsDir!);
+  }
+
+  /**
+   * Convert a test result to an Allure result, copying its attachments to the results directory
+   * @param suite Suite the test belongs to
+   * @param result Test result
+   */
+  private async toAllureResult(suite: AllureSuite, result: TestResult): Promise<AllureResult> {
+    const fullName = `${suite.name} ${result.name}`;
+    const hasFixme = this.getAnnotations(result).some(annotation => annotation.type === 'fixme');
+
+    const labels = [
+      { name: 'suite', value: suite.name },
+      { name: 'framework', value: 'playwright' },
+      { name: 'language', value: 'typescript' },
+      { name: 'host', value: os.hostname() },
+      ...this.getTags(result).map(tag => ({ name: 'tag', value: tag }))
+    ];
+    const statusDetails: AllureStatusDetails = {
+      ...errorDetails(result.error),
+      message: result.error?.message ?? this.getSkipReason(result) ?? (result.hookFailures?.length ? 'Hook failed' : undefined)
+    };
+    if (result.status === TestStatus.FLAKY) {
+      statusDetails.flaky = true;
+    }
+    if (hasFixme) {
+      statusDetails.known = true;
+    }
+
+    return {
+      uuid: crypto.randomUUID(),
+      historyId: crypto.createHash('md5').update(fullName).digest('hex'),
+      fullName,
+      name: result.name,
+      status: toAllureStatus(result.status, result.error),
+      statusDetails: removeUndefined(statusDetails),
+      stage: 'finished',
+      start: result.startTime.getTime(),
+      stop: result.endTime.getTime(),
+      labels,
+      links: [],
+      parameters: result.retries ? [{ name: 'retries', value: String(result.retries) }] : [],
+      attachments: await this.copyAttachments(this.getAttachments(result)),
+      steps: await this.toAllureSteps(result.steps ?? [])
+    };
+  }
+
+  /**
+   * Convert steps and their screenshots to Allure steps
+   */
+  private async toAllureSteps(steps: TestStep[]): Promise<AllureStep[]> {
+    const converted: AllureStep[] = [];
+    for (const step of steps) {
+      const screenshots = step.screenshot && this.options.screenshots ? [step.screenshot] : [];
+      converted.push({
+        name: step.title,
+        status: toAllureStatus(step.status, step.error),
+        statusDetails: removeUndefined(errorDetails(step.error)),
+        stage: 'finished',
+        start: step.startTime.getTime(),
+        stop: step.endTime.getTime(),
+        steps: await this.toAllureSteps(step.steps),
+        attachments: await this.copyAttachments(screenshots),
+        parameters: []
+      });
+    }
+    return converted;
+  }
+
+  /**
+   * Build the container of a suite, with its failed hooks as fixtures
+   */
+  private toContainer(suite: AllureSuite, children: string[]): AllureContainer {
+    const hookFailures = suite.results.flatMap(result => result.hookFailures ?? []);
+    const start = Math.min(...suite.results.map(result => result.startTime.getTime()));
+    const stop = Math.max(...suite.results.map(result => result.endTime.getTime()));
+    const fixture = (failure: HookFailure): AllureStep => ({
+      name: `${failure.hook} hook: ${failure.name}`,
+      status: 'broken',
+      statusDetails: removeUndefined(errorDetails(failure.error)),
+      stage: 'finished',
+      start,
+      stop,
+      steps: [],
+      attachments: [],
+      parameters: []
+    });
+
+    return {
+      uuid: suite.uuid,
+      name: suite.name,
+      children,
+      befores: hookFailures.filter(failure => failure.hook.startsWith('before')).map(fixture),
+      afters: hookFailures.filter(failure => failure.hook.startsWith('after')).map(fixture),
+      start,
+      stop
+    };
+  }
+
+  /**
+   * Copy attachment files into the results directory under Allure file names
+   * Missing files are skipped with a warning.
+   */
+  private async copyAttachments(attachments: Attachment[]): Promise<AllureAttachment[]> {
+    const copied: AllureAttachment[] = [];
+    for (const attachment of attachments) {
+      const source = `${crypto.randomUUID()}-attachment${path.extname(attachment.path)}`;
+      try {
+        await fs.promises.copyFile(attachment.path, path.join(this.getResultsDir(), source));
+        copied.push({ name: attachment.name, source, type: attachment.contentType });
+      } catch (error) {
+        this.logger.warn(`Cannot copy attachment ${attachment.path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return copied;
+  }
+
+  /**
+   * Render environment.properties from the current configuration
+   */
+  private toEnvironmentProperties(): string {
+    const config = ConfigManager.getInstance();
+    const testConfig = config.getTestConfig();
+    const overlays = config.getEnvironmentOverlays();
+
+    const properties: Record<string, string | undefined> = {
+      environment: config.getEnvironmentName(),
+      overlays: overlays.length > 0 ? overlays.join(',') : undefined,
+      baseUrl: testConfig.baseUrl,
+      apiUrl: config.getCurrentEnvironment()?.apiUrl ?? config.getConfig<string>('apiBaseUrl'),
+      browser: testConfig.browserName,
+      headless: testConfig.headless === undefined ? undefined : String(testConfig.headless),
+      platform: `${os.platform()} ${os.release()}`,
+      node: process.version,
+      ...this.options.environmentInfo
+    };
+
+    return Object.entries(properties)
+      .filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== '')
+      .map(([key, value]) => `${escapeProperty(key)}=${escapeProperty(this.mask(value))}`)
+      .join('\n') + '\n';
+  }
+}
+
+/**
+ * Map a test status to an Allure status
+ * Failed expectations are product defects; timeouts and other errors are test defects.
+ */
+function toAllureStatus(status: TestStatus, error?: Error): AllureStatus {
+  switch (status) {
+    case TestStatus.PASSED:
+    case TestStatus.FLAKY:
+      return 'passed';
+    case TestStatus.FAILED:
+      return !error || /assert|expect/i.test(`${error.name} ${error.message}`) ? 'failed' : 'broken';
+    case TestStatus.TIMED_OUT:
+      return 'broken';
+    case TestStatus.SKIPPED:
+      return 'skipped';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Get the message and stack trace of an error
+ */
+function errorDetails(error?: Error): AllureStatusDetails {
+  return error ? { message: error.message, trace: error.stack } : {};
+}
+
+/**
+ * Drop undefined fields, which Allure reads as nulls
+ */
+function removeUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined)) as T;
+}
+
+/**
+ * Escape a key or value of a .properties file
+ */
+function escapeProperty(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/([=:#!])/g, '\\$1');
+}
+
+/**
+ * Write a value as formatted JSON
+ */
+async function writeJson(filePath: string, value: unknown): Promise<void> {
+  await fs.promises.writeFile(filePath, `${JSON.stringify(value, null, 2)}\n`, 'utf8');
+}
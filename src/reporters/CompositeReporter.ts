@@ -0,0 +1,135 @@
+/**
+ * Composite Reporter
+ * Forwards every reporter callback to several reporters, isolating their errors from each other
+ */
+import { BaseReporter } from '@core/BaseReporter';
+import { ReporterOptions, TestResult } from '@core/types';
+import { Logger } from '@utils/Logger';
+import { ReporterRegistry } from './ReporterRegistry';
+
+/**
+ * Error raised by one of the reporters of a composite reporter
+ */
+export interface ReporterFailure {
+  // Class name of the failing reporter
+  reporter: string;
+  // Callback that failed, e.g. 'onTestEnd' or 'generateReport'
+  callback: string;
+  error: Error;
+}
+
+export class CompositeReporter extends BaseReporter {
+  private reporters: BaseReporter[];
+  private failures: ReporterFailure[] = [];
+  private logger: Logger;
+
+  /**
+   * Creates a new CompositeReporter instance
+   * @param reporters Reporters receiving the callbacks (default: reporters listed in the config)
+   * @param options Reporter options of the composite itself
+   */
+  constructor(reporters: BaseReporter[] = ReporterRegistry.getInstance().createFromConfig(), options: ReporterOptions = {}) {
+    super(options);
+    this.reporters = [...reporters];
+    this.logger = new Logger('CompositeReporter');
+  }
+
+  /**
+   * Add a reporter
+   * @param reporter Reporter receiving the callbacks from now on
+   */
+  add(reporter: BaseReporter): void {
+    this.reporters.push(reporter);
+  }
+
+  /**
+   * Get the reporters receiving the callbacks
+   */
+  getReporters(): BaseReporter[] {
+    return [...this.reporters];
+  }
+
+  /**
+   * Get the errors raised by the reporters so far
+   */
+  getFailures(): ReporterFailure[] {
+    return [...this.failures];
+  }
+
+  /**
+   * Forward the start of a suite
+   */
+  onSuiteStart(suiteName: string, totalTests: number): void {
+    this.forward('onSuiteStart', reporter => reporter.onSuiteStart(suiteName, totalTests));
+  }
+
+  /**
+   * Forward the end of a suite
+   */
+  onSuiteEnd(suiteName: string, totalPassed: number, totalFailed: number, totalSkipped: number): void {
+    this.forward('onSuiteEnd', reporter => reporter.onSuiteEnd(suiteName, totalPassed, totalFailed, totalSkipped));
+  }
+
+  /**
+   * Forward the start of a test
+   */
+  onTestStart(testName: string, suiteName?: string): void {
+    this.forward('onTestStart', reporter => reporter.onTestStart(testName, suiteName));
+  }
+
+  /**
+   * Forward the result of a test
+   */
+  onTestEnd(result: TestResult): void {
+    super.onTestEnd(result);
+    this.forward('onTestEnd', reporter => reporter.onTestEnd(result));
+  }
+
+  /**
+   * Clear the results of the composite and of every reporter
+   */
+  clearResults(): void {
+    super.clearResults();
+    this.forward('clearResults', reporter => reporter.clearResults());
+  }
+
+  /**
+   * Generate every report
+   * A failing reporter is logged and recorded; the other reports are still generated.
+   */
+  async generateReport(): Promise<void> {
+    for (const reporter of this.reporters) {
+      try {
+        await reporter.generateReport();
+      } catch (error) {
+        this.recordFailure(reporter, 'generateReport', error);
+      }
+    }
+  }
+
+  /**
+   * Call a callback on every reporter, recording the errors instead of throwing them
+   */
+  private forward(callback: string, call: (reporter: BaseReporter) => void): void {
+    for (const reporter of this.reporters) {
+      try {
+        call(reporter);
+      } catch (error) {
+        this.recordFailure(reporter, callback, error);
+      }
+    }
+  }
+
+  /**
+   * Log and record an error raised by a reporter
+   */
+  private recordFailure(reporter: BaseReporter, callback: string, error: unknown): void {
+    const failure: ReporterFailure = {
+      reporter: reporter.constructor.name,
+      callback,
+      error: error instanceof Error ? error : new Error(String(error))
+    };
+    this.failures.push(failure);
+    this.logger.error(`${failure.reporter}.${callback} failed: ${failure.error.message}`);
+  }
+}
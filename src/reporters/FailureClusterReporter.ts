@@ -0,0 +1,73 @@
+/**
+ * Failure Cluster Reporter
+ * Writes the failures of a run grouped by root cause as JSON and logs the largest groups
+ */
+import fs from 'fs';
+import path from 'path';
+import { BaseReporter } from '@core/BaseReporter';
+import { FailureCluster } from '@core/FailureClusters';
+import { ReporterOptions } from '@core/types';
+import { Logger } from '@utils/Logger';
+
+/**
+ * Failure cluster reporter options
+ */
+export interface FailureClusterReporterOptions extends ReporterOptions {
+  // Name of the JSON file inside outputDir
+  outputFile?: string;
+  // Smallest number of tests sharing an error that is logged as a common root cause
+  minClusterSize?: number;
+}
+
+/**
+ * Contents of the JSON file
+ */
+export interface FailureClusterReport {
+  failed: number;
+  clusters: FailureCluster[];
+}
+
+export class FailureClusterReporter extends BaseReporter {
+  declare protected options: FailureClusterReporterOptions;
+  private logger: Logger;
+
+  /**
+   * Creates a new FailureClusterReporter instance
+   * @param options Reporter options
+   */
+  constructor(options: FailureClusterReporterOptions = {}) {
+    super(options);
+    this.options = {
+      outputFile: 'failure-clusters.json',
+      minClusterSize: 2,
+      ...this.options
+    };
+    this.logger = new Logger('FailureClusterReporter');
+  }
+
+  /**
+   * Write the clusters to the output directory and log the common root causes
+   */
+  async generateReport(): Promise<void> {
+    const report = this.toJson();
+    const filePath = path.join(this.options.outputDir!, this.options.outputFile!);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, `${JSON.stringify(report, null, 2)}\n`, 'utf8');
+
+    for (const cluster of report.clusters.filter(item => item.count >= this.options.minClusterSize!)) {
+      this.logger.warn(`${cluster.count} tests failed with the same root cause: ${cluster.errorName}: ${cluster.message}`);
+    }
+    this.logger.info(`Failure clusters written to ${filePath}`);
+  }
+
+  /**
+   * Get the clusters of the collected results
+   */
+  toJson(): FailureClusterReport {
+    const clusters = this.getFailureClusters();
+    return {
+      failed: clusters.reduce((sum, cluster) => sum + cluster.count, 0),
+      clusters
+    };
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * HTML Reporter
+ * Writes a single self-contained HTML file that can be opened offline or attached to a CI build
+ */
+import fs from 'fs';
+import path from 'path';
+import { BaseReporter } from '@core/BaseReporter';
+import { ConfigManager } from '@core/ConfigManager';
+import { Attachment, ReporterOptions, TestResult, TestStep } from '@core/types';
+import { FAILURE_STATUSES, TestStatus } from '@core/constants';
+import { Logger } from '@utils/Logger';
+import { escapeHtml, formatDuration } from './format';
+
+/**
+ * HTML reporter options
+ */
+export interface HtmlReporterOptions extends ReporterOptions {
+  // Name of the report file inside outputDir
+  outputFile?: string;
+  // Title of the report page
+  title?: string;
+  // Smallest number of tests sharing an error that is shown as a common root cause
+  minClusterSize?: number;
+}
+
+const STATUS_ORDER = [
+  TestStatus.FAILED,
+  TestStatus.TIMED_OUT,
+  TestStatus.FLAKY,
+  TestStatus.PASSED,
+  TestStatus.SKIPPED,
+  TestStatus.PENDING,
+  TestStatus.RUNNING
+];
+
+const STYLE = `
+body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+header, main { max-width: 1100px; margin: 0 auto; padding: 16px 24px; }
+h1 { font-size: 22px; margin: 8px 0; }
+.meta { color: #59636e; font-size: 13px; }
+.summary { display: flex; gap: 12px; flex-wrap: wrap; margin: 16px 0; }
+.summary div { background: #fff; border: 1px solid #d1d9e0; border-radius: 6px; padding: 8px 16px; min-width: 80px; }
+.summary b { display: block; font-size: 20px; }
+.filters { display: flex; gap: 16px; flex-wrap: wrap; align-items: center; margin-bottom: 12px; font-size: 14px; }
+details.test { background: #fff; border: 1px solid #d1d9e0; border-radius: 6px; margin-bottom: 6px; }
+details.test > summary { display: grid; grid-template-columns: 90px 1fr 200px; gap: 12px; align-items: center; padding: 8px 12px; cursor: pointer; }
+.status { font-size: 12px; font-weight: 600; text-transform: uppercase; }
+.passed { color: #1a7f37; } .failed, .timedOut { color: #d1242f; } .flaky { color: #9a6700; } .skipped, .pending, .running { color: #59636e; }
+.tag { background: #ddf4ff; color: #0969da; border-radius: 10px; padding: 0 8px; margin-left: 6px; font-size: 12px; }
+.duration { display: flex; align-items: center; gap: 8px; font-size: 12px; color: #59636e; }
+.bar { height: 6px; background: #54aeff; border-radius: 3px; min-width: 2px; }
+.body { padding: 0 12px 12px; border-top: 1px solid #d1d9e0; }
+pre { background: #f6f8fa; padding: 8px; overflow-x: auto; font-size: 12px; white-space: pre-wrap; }
+.error { color: #d1242f; }
+ul.steps { font-size: 13px; padding-left: 20px; }
+.clusters { background: #fff8f8; border: 1px solid #ffcecb; border-radius: 6px; padding: 8px 16px; margin-bottom: 16px; }
+.clusters h2 { font-size: 16px; margin: 8px 0; }
+.clusters details { margin: 6px 0; }
+img { max-width: 100%; border: 1px solid #d1d9e0; margin: 8px 0; display: block; }
+`;
+
+// Shows only tests matching the selected statuses and tag
+const SCRIPT = `
+function applyFilters() {
+  var statuses = Array.prototype.filter.call(document.querySelectorAll('[data-filter-status]'), function (box) { return box.checked; })
+    .map(function (box) { return box.value; });
+  var tag = document.getElementById('tag-filter').value;
+  document.querySelectorAll('details.test').forEach(function (test) {
+    var tags = test.dataset.tags ? test.dataset.tags.split(' ') : [];
+    test.hidden = statuses.indexOf(test.dataset.status) < 0 || (tag !== '' && tags.indexOf(tag) < 0);
+  });
+}
+document.querySelectorAll('[data-filter-status], #tag-filter').forEach(function (input) { input.addEventListener('change', applyFilters); });
+`;
+
+export class HtmlReporter extends BaseReporter {
+  declare protected options: HtmlReporterOptions;
+  private logger: Logger;
+
+  /**
+   * Creates a new HtmlReporter instance
+   * @param options Reporter options
+   */
+  constructor(options: HtmlReporterOptions = {}) {
+    super(options);
+    this.options = {
+      outputFile: 'report.html',
+      title: 'Test Report',
+      minClusterSize: 2,
+      ...this.options
+    };
+    this.logger = new Logger('HtmlReporter');
+  }
+
+  /**
+   * Write the HTML report to the output directory
+   */
+  async generateReport(): Promise<void> {
+    const filePath = path.join(this.options.outputDir!, this.options.outputFile!);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, await this.toHtml(), 'utf8');
+    this.logger.info(`HTML report written to ${filePath}`);
+  }
+
+  /**
+   * Render the collected results as an HTML page
+   * Screenshots are embedded; videos and other files are linked relative to the report file.
+   */
+  async toHtml(): Promise<string> {
+    const summary = this.getSummary();
+    const results = this.getResults();
+    const tags = Array.from(new Set(results.flatMap(result => this.getTags(result)))).sort();
+    const statuses = STATUS_ORDER.filter(status => results.some(result => result.status === status));
+    const maxDuration = Math.max(1, ...results.map(result => result.duration));
+
+    const tests: string[] = [];
+    for (const result of results) {
+      tests.push(await this.renderTest(result, maxDuration));
+    }
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${escapeHtml(this.options.title!)}</title>`,
+      `<style>${STYLE}</style>`,
+      '</head>',
+      '<body>',
+      '<header>',
+      `<h1>${escapeHtml(this.options.title!)}</h1>`,
+      `<div class="meta">Environment: ${escapeHtml(ConfigManager.getInstance().getEnvironmentName())} · Generated ${escapeHtml(new Date().toISOString())}</div>`,
+      '<div class="summary">',
+      summaryItem('Total', summary.total),
+      summaryItem('Passed', summary.passed, 'passed'),
+      summaryItem('Failed', summary.failed, 'failed'),
+      summaryItem('Flaky', summary.flaky, 'flaky'),
+      summaryItem('Skipped', summary.skipped, 'skipped'),
+      summary.quarantined > 0 ? summaryItem('Quarantined', summary.quarantined) : '',
+      summaryItem('Duration', formatDuration(summary.duration)),
+      '</div>',
+      '</header>',
+      '<main>',
+      this.renderClusters(),
+      '<div class="filters">',
+      ...statuses.map(status =>
+        `<label class="${status}"><input type="checkbox" data-filter-status value="${status}" checked> ${escapeHtml(status)}</label>`
+      ),
+      tags.length > 0
+        ? `<label>Tag <select id="tag-filter"><option value="">All</option>${tags
+          .map(tag => `<option value="${escapeHtml(tag)}">${escapeHtml(tag)}</option>`)
+          .join('')}</select></label>`
+        : '<input type="hidden" id="tag-filter" value="">',
+      '</div>',
+      ...tests,
+      '</main>',
+      `<script>${SCRIPT}</script>`,
+      '</body>',
+      '</html>',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Render the groups of tests that failed with the same root cause
+   */
+  private renderClusters(): string {
+    const clusters = this.getFailureClusters().filter(cluster => cluster.count >= this.options.minClusterSize!);
+    if (clusters.length === 0) {
+      return '';
+    }
+
+    return [
+      '<section class="clusters">',
+      '<h2>Common failures</h2>',
+      ...clusters.map(cluster => [
+        '<details>',
+        `<summary><b>${cluster.count} tests failed with the same root cause:</b> <span class="error">${escapeHtml(`${cluster.errorName}: ${cluster.message}`)}</span></summary>`,
+        cluster.frames.length > 0 ? `<pre>${escapeHtml(cluster.frames.join('\n'))}</pre>` : '',
+        `<ul>${cluster.tests.map(test => `<li>${escapeHtml(test)}</li>`).join('')}</ul>`,
+        '</details>'
+      ].join('\n')),
+      '</section>'
+    ].join('\n');
+  }
+
+  /**
+   * Render a test as a collapsible block, expanded when it failed
+   */
+  private async renderTest(result: TestResult, maxDuration: number): Promise<string> {
+    const tags = this.getTags(result);
+    const failed = FAILURE_STATUSES.includes(result.status);
+    const body: string[] = [];
+
+    const skipReason = this.getSkipReason(result);
+    if (skipReason) {
+      body.push(`<p>${escapeHtml(skipReason)}</p>`);
+    }
+    if (result.error) {
+      body.push(`<pre class="error">${escapeHtml(result.error.stack ?? `${result.error.name}: ${result.error.message}`)}</pre>`);
+    }
+    for (const failure of result.hookFailures ?? []) {
+      body.push(`<p class="error">${escapeHtml(`${failure.hook} hook '${failure.name}' failed`)}</p>`);
+      body.push(`<pre class="error">${escapeHtml(failure.error.stack ?? failure.error.message)}</pre>`);
+    }
+    if (result.retries) {
+      body.push(`<p>Retries: ${result.retries}</p>`);
+    }
+    if (this.options.logs && result.steps && result.steps.length > 0) {
+      body.push(await this.renderSteps(result.steps));
+    }
+    for (const attachment of this.getAttachments(result)) {
+      body.push(await this.renderAttachment(attachment));
+    }
+
+    return [
+      `<details class="test" data-status="${result.status}" data-tags="${escapeHtml(tags.join(' '))}"${failed ? ' open' : ''}>`,
+      '<summary>',
+      `<span class="status ${result.status}">${escapeHtml(result.status)}</span>`,
+      `<span>${escapeHtml(result.name)}${tags.map(tag => `<span class="tag">${escapeHtml(tag)}</span>`).join('')}</span>`,
+      `<span class="duration"><span class="bar" style="width: ${Math.round((result.duration / maxDuration) * 140)}px"></span>${formatDuration(result.duration)}</span>`,
+      '</summary>',
+      `<div class="body">${body.join('\n')}</div>`,
+      '</details>'
+    ].join('\n');
+  }
+
+  /**
+   * Render a step tree as nested lists, with step screenshots embedded
+   */
+  private async renderSteps(steps: TestStep[]): Promise<string> {
+    const items: string[] = [];
+    for (const step of steps) {
+      let item = `<li><span class="${step.status}">${escapeHtml(step.title)}</span> (${formatDuration(step.duration)})`;
+      if (step.error) {
+        item += ` <span class="error">${escapeHtml(step.error.message)}</span>`;
+      }
+      if (step.screenshot && this.options.screenshots) {
+        item += await this.renderAttachment(step.screenshot);
+      }
+      if (step.steps.length > 0) {
+        item += await this.renderSteps(step.steps);
+      }
+      items.push(`${item}</li>`);
+    }
+    return `<ul class="steps">${items.join('')}</ul>`;
+  }
+
+  /**
+   * Embed an image attachment or link any other attachment
+   */
+  private async renderAttachment(attachment: Attachment): Promise<string> {
+    const name = escapeHtml(attachment.name);
+    if (attachment.contentType.startsWith('image/')) {
+      try {
+        const data = await fs.promises.readFile(attachment.path);
+        return `<img alt="${name}" src="data:${escapeHtml(attachment.contentType)};base64,${data.toString('base64')}">`;
+      } catch {
+        return `<p>Screenshot ${name} is missing (${escapeHtml(attachment.path)})</p>`;
+      }
+    }
+
+    const reportDir = path.dirname(path.resolve(this.options.outputDir!, this.options.outputFile!));
+    const href = encodeURI(path.relative(reportDir, path.resolve(attachment.path)).split(path.sep).join('/'));
+    const kind = attachment.contentType.startsWith('video/') ? 'Video' : 'Attachment';
+    return `<p>${kind}: <a href="${escapeHtml(href)}">${name}</a></p>`;
+  }
+}
+
+/**
+ * Render a summary counter
+ */
+function summaryItem(label: string, value: string | number, className?: string): string {
+  return `<div${className ? ` class="${className}"` : ''}>${label}<b>${escapeHtml(String(value))}</b></div>`;
+}
@@ -0,0 +1,241 @@
+/**
+ * JUnit XML Reporter
+ * Writes test results in the JUnit XML format understood by CI servers
+ */
+import fs from 'fs';
+import path from 'path';
+import { BaseReporter } from '@core/BaseReporter';
+import { ReporterOptions, TestResult } from '@core/types';
+import { TestStatus } from '@core/constants';
+import { Logger } from '@utils/Logger';
+import { escapeXml } from './format';
+
+/**
+ * JUnit reporter options
+ */
+export interface JUnitReporterOptions extends ReporterOptions {
+  // Name of the report file inside outputDir
+  outputFile?: string;
+  // Name of the root <testsuites> element and of the suite collecting tests reported outside a suite
+  suiteName?: string;
+}
+
+interface JUnitSuite {
+  name: string;
+  timestamp: Date;
+  results: TestResult[];
+}
+
+export class JUnitReporter extends BaseReporter {
+  declare protected options: JUnitReporterOptions;
+  private suites: JUnitSuite[] = [];
+  private currentSuite?: JUnitSuite;
+  // Suites started and not ended yet, by name; tests of overlapping suites name theirs in metadata.suite
+  private openSuites: Map<string, JUnitSuite> = new Map();
+  private logger: Logger;
+
+  /**
+   * Creates a new JUnitReporter instance
+   * @param options Reporter options
+   */
+  constructor(options: JUnitReporterOptions = {}) {
+    super(options);
+    this.options = {
+      outputFile: 'junit.xml',
+      suiteName: 'Test Results',
+      ...this.options
+    };
+    this.logger = new Logger('JUnitReporter');
+  }
+
+  /**
+   * Start collecting tests into a new <testsuite>
+   */
+  onSuiteStart(suiteName: string, _totalTests: number): void {
+    this.currentSuite = { name: suiteName, timestamp: new Date(), results: [] };
+    this.suites.push(this.currentSuite);
+    this.openSuites.set(suiteName, this.currentSuite);
+  }
+
+  /**
+   * Close the current <testsuite>
+   */
+  onSuiteEnd(suiteName: string, _totalPassed: number, _totalFailed: number, _totalSkipped: number): void {
+    if (this.currentSuite === this.openSuites.get(suiteName)) {
+      this.currentSuite = undefined;
+    }
+    this.openSuites.delete(suiteName);
+  }
+
+  /**
+   * Add a test to the current <testsuite>
+   */
+  onTestEnd(result: TestResult): void {
+    super.onTestEnd(result);
+
+    const suiteName: unknown = result.metadata?.suite;
+    const suite = typeof suiteName === 'string' ? this.openSuites.get(suiteName) : undefined;
+    if (suite) {
+      suite.results.push(this.results[this.results.length - 1]);
+      return;
+    }
+
+    if (!this.currentSuite) {
+      this.currentSuite = { name: this.options.suiteName!, timestamp: result.startTime, results: [] };
+      this.suites.push(this.currentSuite);
+    }
+    // The masked copy stored by BaseReporter
+    this.currentSuite.results.push(this.results[this.results.length - 1]);
+  }
+
+  /**
+   * Clear test results and suites
+   */
+  clearResults(): void {
+    super.clearResults();
+    this.suites = [];
+    this.currentSuite = undefined;
+    this.openSuites.clear();
+  }
+
+  /**
+   * Write the JUnit XML file to the output directory
+   */
+  async generateReport(): Promise<void> {
+    const filePath = path.join(this.options.outputDir!, this.options.outputFile!);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, this.toXml(), 'utf8');
+    this.logger.info(`JUnit report written to ${filePath}`);
+  }
+
+  /**
+   * Render the collected results as JUnit XML
+   */
+  toXml(): string {
+    const suites = this.suites.filter(suite => suite.results.length > 0);
+    const totals = this.count(suites.flatMap(suite => suite.results));
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites${attributes({ name: this.mask(this.options.suiteName!), ...totals })}>`,
+      ...suites.flatMap(suite => this.renderSuite(suite)),
+      '</testsuites>'
+    ];
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Render a <testsuite> element
+   */
+  private renderSuite(suite: JUnitSuite): string[] {
+    return [
+      `  <testsuite${attributes({
+        name: this.mask(suite.name),
+        timestamp: suite.timestamp.toISOString(),
+        ...this.count(suite.results)
+      })}>`,
+      ...suite.results.flatMap(result => this.renderTestCase(suite, result)),
+      '  </testsuite>'
+    ];
+  }
+
+  /**
+   * Render a <testcase> element
+   */
+  private renderTestCase(suite: JUnitSuite, result: TestResult): string[] {
+    const lines = [`    <testcase${attributes({
+      name: result.name,
+      classname: this.mask(suite.name),
+      time: seconds(result.duration)
+    })}>`];
+
+    const properties = this.getProperties(result);
+    if (properties.length > 0) {
+      lines.push('      <properties>');
+      properties.forEach(([name, value]) => lines.push(`        <property${attributes({ name, value })}/>`));
+      lines.push('      </properties>');
+    }
+
+    if (result.status === TestStatus.SKIPPED) {
+      lines.push(`      <skipped${attributes({ message: this.getSkipReason(result) })}/>`);
+    } else if (this.isQuarantinedFailure(result)) {
+      // Reported as skipped, so CI reading the report does not fail the build; the failure stays visible
+      lines.push(`      <skipped${attributes({ message: `Quarantined test failed: ${result.error?.message ?? 'Test failed'}` })}/>`);
+      lines.push(`      <system-err>${escapeXml(this.getFailureDetails(result))}</system-err>`);
+    } else if (result.status === TestStatus.FAILED || result.status === TestStatus.TIMED_OUT) {
+      // A timeout is an error of the run rather than a failed expectation
+      const element = result.status === TestStatus.TIMED_OUT ? 'error' : 'failure';
+      const error = result.error;
+      const message = error?.message ?? (result.hookFailures?.length ? 'Hook failed' : 'Test failed');
+      lines.push(`      <${element}${attributes({ message, type: error?.name ?? 'Error' })}>${escapeXml(
+        this.getFailureDetails(result)
+      )}</${element}>`);
+    }
+
+    if (this.options.logs && result.steps && result.steps.length > 0) {
+      lines.push(`      <system-out>${escapeXml(this.renderStepTree(result.steps).join('\n'))}</system-out>`);
+    }
+
+    lines.push('    </testcase>');
+    return lines;
+  }
+
+  /**
+   * Get the <property> name/value pairs of a test case: retries, tags, annotations and attachment paths
+   */
+  private getProperties(result: TestResult): Array<[string, string]> {
+    const properties: Array<[string, string]> = [];
+
+    if (result.retries) {
+      properties.push(['retries', String(result.retries)]);
+    }
+    if (result.status === TestStatus.FLAKY) {
+      properties.push(['flaky', 'true']);
+    }
+    if (result.metadata?.quarantined === true) {
+      properties.push(['quarantined', 'true']);
+    }
+    for (const tag of this.getTags(result)) {
+      properties.push(['tag', tag]);
+    }
+    for (const annotation of this.getAnnotations(result)) {
+      properties.push([`annotation:${annotation.type}`, annotation.description ?? '']);
+    }
+    for (const attachment of this.getAttachments(result)) {
+      properties.push([`attachment:${attachment.name}`, attachment.path]);
+    }
+
+    return properties;
+  }
+
+  /**
+   * Count the results of a suite the way JUnit does; quarantined failures count as skipped
+   */
+  private count(results: TestResult[]): Record<string, string | number> {
+    const counted = results.filter(result => !this.isQuarantinedFailure(result));
+    return {
+      tests: results.length,
+      failures: counted.filter(result => result.status === TestStatus.FAILED).length,
+      errors: counted.filter(result => result.status === TestStatus.TIMED_OUT).length,
+      skipped: results.length - counted.length + counted.filter(result => result.status === TestStatus.SKIPPED).length,
+      time: seconds(results.reduce((sum, result) => sum + result.duration, 0))
+    };
+  }
+}
+
+/**
+ * Render XML attributes, skipping undefined values
+ */
+function attributes(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join('');
+}
+
+/**
+ * Format a duration in milliseconds as seconds
+ */
+function seconds(duration: number): string {
+  return (duration / 1000).toFixed(3);
+}
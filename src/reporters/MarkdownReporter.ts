@@ -0,0 +1,176 @@
+/**
+ * Markdown Reporter
+ * Writes a Markdown summary of the run for a CI job summary (GITHUB_STEP_SUMMARY) or a PR comment
+ */
+import fs from 'fs';
+import path from 'path';
+import { BaseReporter } from '@core/BaseReporter';
+import { ConfigManager } from '@core/ConfigManager';
+import { ReporterOptions, TestResult } from '@core/types';
+import { FAILURE_STATUSES, TestStatus } from '@core/constants';
+import { Logger } from '@utils/Logger';
+import { formatDuration, stripAnsi } from './format';
+
+/**
+ * Markdown reporter options
+ */
+export interface MarkdownReporterOptions extends ReporterOptions {
+  // Name of the summary file inside outputDir
+  outputFile?: string;
+  // Heading of the summary
+  title?: string;
+  // Whether to append the summary to the file named by GITHUB_STEP_SUMMARY when it is set
+  githubStepSummary?: boolean;
+  // Maximum number of failures listed in detail
+  maxFailures?: number;
+  // Smallest number of tests sharing an error that is listed as a common root cause
+  minClusterSize?: number;
+}
+
+const STATUS_LABELS: Array<[TestStatus, string]> = [
+  [TestStatus.PASSED, '✅ Passed'],
+  [TestStatus.FAILED, '❌ Failed'],
+  [TestStatus.TIMED_OUT, '⏱️ Timed out'],
+  [TestStatus.FLAKY, '⚠️ Flaky'],
+  [TestStatus.SKIPPED, '⏭️ Skipped']
+];
+
+export class MarkdownReporter extends BaseReporter {
+  declare protected options: MarkdownReporterOptions;
+  private logger: Logger;
+
+  /**
+   * Creates a new MarkdownReporter instance
+   * @param options Reporter options
+   */
+  constructor(options: MarkdownReporterOptions = {}) {
+    super(options);
+    this.options = {
+      outputFile: 'summary.md',
+      title: 'Test Results',
+      githubStepSummary: true,
+      maxFailures: 20,
+      minClusterSize: 2,
+      ...this.options
+    };
+    this.logger = new Logger('MarkdownReporter');
+  }
+
+  /**
+   * Write the summary file, and append it to the GitHub job summary when running in GitHub Actions
+   */
+  async generateReport(): Promise<void> {
+    const markdown = this.toMarkdown();
+    const filePath = path.join(this.options.outputDir!, this.options.outputFile!);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, markdown, 'utf8');
+    this.logger.info(`Markdown summary written to ${filePath}`);
+
+    const stepSummary = process.env.GITHUB_STEP_SUMMARY;
+    if (this.options.githubStepSummary && stepSummary) {
+      await fs.promises.appendFile(stepSummary, markdown, 'utf8');
+    }
+  }
+
+  /**
+   * Render the collected results as Markdown
+   */
+  toMarkdown(): string {
+    const results = this.getResults();
+    const summary = this.getSummary();
+    // Failures of quarantined tests do not fail the run and are listed apart
+    const quarantined = results.filter(result => this.isQuarantinedFailure(result));
+    const failures = results.filter(result => FAILURE_STATUSES.includes(result.status) && !this.isQuarantinedFailure(result));
+    const flaky = results.filter(result => result.status === TestStatus.FLAKY);
+    const clusters = this.getFailureClusters().filter(cluster => cluster.count >= this.options.minClusterSize!);
+
+    const lines = [
+      `## ${summary.failed > 0 ? '❌' : '✅'} ${escapeMarkdown(this.options.title!)}`,
+      '',
+      `${summary.total} tests in ${formatDuration(summary.duration)} on \`${ConfigManager.getInstance().getEnvironmentName()}\``,
+      '',
+      '| Status | Tests |',
+      '| :-- | --: |',
+      ...STATUS_LABELS.map(([status, label]) => `| ${label} | ${results.filter(result => result.status === status && !this.isQuarantinedFailure(result)).length} |`),
+      ...(quarantined.length > 0 ? [`| 🔒 Quarantined | ${quarantined.length} |`] : []),
+      `| **Total** | **${summary.total}** |`,
+      ''
+    ];
+
+    if (clusters.length > 0) {
+      lines.push('### Common failures', '');
+      for (const cluster of clusters) {
+        lines.push(`- **${cluster.count} tests failed with the same root cause:** ${inlineCode(`${cluster.errorName}: ${cluster.message}`)}`);
+      }
+      lines.push('');
+    }
+
+    if (failures.length > 0) {
+      lines.push(`### Failures (${failures.length})`, '');
+      for (const result of failures.slice(0, this.options.maxFailures)) {
+        lines.push(...this.renderFailure(result));
+      }
+      if (failures.length > this.options.maxFailures!) {
+        lines.push(`…and ${failures.length - this.options.maxFailures!} more`, '');
+      }
+    }
+
+    if (quarantined.length > 0) {
+      lines.push(`### Quarantined failures (${quarantined.length})`, '');
+      for (const result of quarantined) {
+        lines.push(`- ${escapeMarkdown(result.name)}: ${inlineCode(result.error?.message ?? 'Test failed')}`);
+      }
+      lines.push('');
+    }
+
+    if (flaky.length > 0) {
+      lines.push(`### Flaky tests (${flaky.length})`, '');
+      for (const result of flaky) {
+        lines.push(`- ${escapeMarkdown(result.name)} (passed after ${result.retries ?? 0} retries)`);
+      }
+      lines.push('');
+    }
+
+    return `${lines.join('\n')}\n`.replace(/\n{3,}/g, '\n\n');
+  }
+
+  /**
+   * Render a failed test with its error message and a folded stack trace
+   */
+  private renderFailure(result: TestResult): string[] {
+    const status = result.status === TestStatus.TIMED_OUT ? '⏱️' : '❌';
+    const message = result.error?.message ?? (result.hookFailures?.length ? 'Hook failed' : 'Test failed');
+    const lines = [`#### ${status} ${escapeMarkdown(result.name)}`, '', codeBlock(message), ''];
+
+    const details = this.getFailureDetails(result);
+    if (details) {
+      lines.push('<details><summary>Stack trace</summary>', '', codeBlock(details), '', '</details>', '');
+    }
+    return lines;
+  }
+}
+
+/**
+ * Escape characters with a meaning in Markdown and HTML
+ */
+function escapeMarkdown(text: string): string {
+  return stripAnsi(text)
+    .replace(/[\\`*_{}[\]()#+!|<>~]/g, '\\$&')
+    .replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Wrap text in a fence longer than any backtick run it contains
+ */
+function codeBlock(text: string): string {
+  const fence = '`'.repeat(Math.max(3, ...(text.match(/`+/g) ?? []).map(run => run.length + 1)));
+  return `${fence}\n${stripAnsi(text).trimEnd()}\n${fence}`;
+}
+
+/**
+ * Render text as inline code on a single line
+ */
+function inlineCode(text: string): string {
+  const fence = '`'.repeat(Math.max(1, ...(text.match(/`+/g) ?? []).map(run => run.length + 1)));
+  return `${fence} ${text.replace(/\s+/g, ' ').trim()} ${fence}`;
+}
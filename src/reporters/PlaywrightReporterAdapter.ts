@@ -0,0 +1,299 @@
+/**
+ * Playwright Reporter Adapter
+ * Feeds the results of specs run by @playwright/test to BaseReporter implementations,
+ * so the same reporters serve BaseTest, ParallelTestRunner and Playwright Test runs
+ */
+import type {
+  FullConfig,
+  FullResult,
+  Reporter,
+  Suite,
+  TestCase,
+  TestError,
+  TestResult as PlaywrightTestResult,
+  TestStep as PlaywrightTestStep
+} from '@playwright/test/reporter';
+import { BaseReporter } from '@core/BaseReporter';
+import { Attachment, TestAttempt, TestResult, TestStep } from '@core/types';
+import { TestStatus } from '@core/constants';
+import { Logger } from '@utils/Logger';
+import { stripAnsi } from './format';
+import { CompositeReporter } from './CompositeReporter';
+
+/**
+ * Playwright reporter adapter options
+ */
+export interface PlaywrightReporterAdapterOptions {
+  // Reporters receiving the translated results (default: reporters listed in the config)
+  reporters?: BaseReporter[];
+}
+
+interface FileSuite {
+  name: string;
+  tests: TestCase[];
+  // Final results passed on so far
+  results: TestResult[];
+  open: boolean;
+}
+
+export class PlaywrightReporterAdapter implements Reporter {
+  private reporter: CompositeReporter;
+  private suites: Map<Suite, FileSuite> = new Map();
+  private logger: Logger;
+
+  /**
+   * Creates a new PlaywrightReporterAdapter instance
+   * @param options Adapter options
+   */
+  constructor(options: PlaywrightReporterAdapterOptions = {}) {
+    this.reporter = new CompositeReporter(options.reporters);
+    this.logger = new Logger('PlaywrightReporterAdapter');
+  }
+
+  /**
+   * Playwright keeps printing through its own reporters
+   */
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  /**
+   * Register the file suites of every project
+   */
+  onBegin(_config: FullConfig, suite: Suite): void {
+    this.suites.clear();
+    for (const test of suite.allTests()) {
+      const fileSuite = getFileSuite(test);
+      if (!this.suites.has(fileSuite)) {
+        this.suites.set(fileSuite, { name: getSuiteName(fileSuite), tests: [], results: [], open: false });
+      }
+      this.suites.get(fileSuite)!.tests.push(test);
+    }
+  }
+
+  /**
+   * Pass on the start of a test as it happens, opening its file suite first
+   * Retries of a test are not reported as new starts.
+   */
+  onTestBegin(test: TestCase, result: PlaywrightTestResult): void {
+    if (result.retry > 0) {
+      return;
+    }
+    const pending = this.openSuite(getFileSuite(test));
+    this.reporter.onTestStart(getTestName(test), pending.name);
+  }
+
+  /**
+   * Pass on the final attempt of a test as it happens, closing its file suite after its last test
+   * Files run in parallel, so suites may overlap; results name their suite in `metadata.suite`.
+   */
+  onTestEnd(test: TestCase, result: PlaywrightTestResult): void {
+    const isFinal = result.status === 'skipped' || result.status === test.expectedStatus || result.retry >= test.retries;
+    if (!isFinal) {
+      return;
+    }
+
+    const fileSuite = getFileSuite(test);
+    const pending = this.openSuite(fileSuite);
+    const testResult = toTestResult(test);
+    pending.results.push(testResult);
+    this.reporter.onTestEnd(testResult);
+
+    if (pending.results.length === pending.tests.length) {
+      this.closeSuite(fileSuite, pending);
+    }
+  }
+
+  /**
+   * Close the suites interrupted before all their tests finished and generate the reports
+   */
+  async onEnd(_result: FullResult): Promise<void> {
+    for (const [fileSuite, pending] of Array.from(this.suites.entries())) {
+      if (pending.open) {
+        this.closeSuite(fileSuite, pending);
+      }
+    }
+
+    await this.reporter.generateReport();
+  }
+
+  /**
+   * Get the reporters receiving the results
+   */
+  getReporters(): BaseReporter[] {
+    return this.reporter.getReporters();
+  }
+
+  /**
+   * Start a file suite on its first test
+   */
+  private openSuite(fileSuite: Suite): FileSuite {
+    let pending = this.suites.get(fileSuite);
+    if (!pending) {
+      // Suite not announced in onBegin
+      pending = { name: getSuiteName(fileSuite), tests: fileSuite.allTests(), results: [], open: false };
+      this.suites.set(fileSuite, pending);
+    }
+    if (!pending.open) {
+      pending.open = true;
+      this.reporter.onSuiteStart(pending.name, pending.tests.length);
+    }
+    return pending;
+  }
+
+  /**
+   * End a file suite with the totals of the tests passed on
+   */
+  private closeSuite(fileSuite: Suite, pending: FileSuite): void {
+    this.suites.delete(fileSuite);
+    const results = pending.results;
+    const passed = results.filter(result => result.status === TestStatus.PASSED || result.status === TestStatus.FLAKY).length;
+    const skipped = results.filter(result => result.status === TestStatus.SKIPPED).length;
+
+    this.reporter.onSuiteEnd(pending.name, passed, results.length - passed - skipped, skipped);
+    this.logger.debug(`Reported ${results.length} of ${pending.tests.length} tests of ${pending.name}`);
+  }
+}
+
+/**
+ * Get the reported name of a file suite: project and file
+ */
+function getSuiteName(fileSuite: Suite): string {
+  const project = fileSuite.project()?.name;
+  return project ? `${project} › ${fileSuite.title}` : fileSuite.title;
+}
+
+/**
+ * Get the reported name of a test: its describe blocks and title
+ */
+function getTestName(test: TestCase): string {
+  // titlePath() starts with the root suite, the project and the file
+  return test.titlePath().slice(3).join(' › ');
+}
+
+/**
+ * Get the file suite a test belongs to
+ */
+function getFileSuite(test: TestCase): Suite {
+  let suite = test.parent;
+  while (suite.type === 'describe' && suite.parent) {
+    suite = suite.parent;
+  }
+  return suite;
+}
+
+/**
+ * Translate a Playwright test case and all its attempts into a TestResult
+ */
+function toTestResult(test: TestCase): TestResult {
+  const attempts = test.results.map(toTestAttempt);
+  const last = attempts[attempts.length - 1];
+  const lastResult = test.results[test.results.length - 1];
+  const fileSuite = getFileSuite(test);
+
+  let status: TestStatus;
+  switch (test.outcome()) {
+    case 'expected':
+      status = TestStatus.PASSED;
+      break;
+    case 'flaky':
+      status = TestStatus.FLAKY;
+      break;
+    case 'skipped':
+      status = TestStatus.SKIPPED;
+      break;
+    default:
+      status = lastResult.status === 'timedOut' ? TestStatus.TIMED_OUT : TestStatus.FAILED;
+  }
+
+  const skipAnnotation = test.annotations.find(annotation => annotation.type === 'skip' || annotation.type === 'fixme');
+  const metadata: Record<string, unknown> = {
+    tags: test.tags.map(tag => tag.replace(/^@/, '')),
+    annotations: test.annotations.map(annotation => ({ type: annotation.type, description: annotation.description })),
+    project: fileSuite.project()?.name,
+    suite: getSuiteName(fileSuite),
+    location: `${test.location.file}:${test.location.line}`
+  };
+  if (status === TestStatus.SKIPPED) {
+    metadata.skipReason = skipAnnotation?.description ?? (lastResult.status === 'interrupted' ? 'Interrupted' : 'Skipped');
+  }
+
+  // Failing a test.fail() test by passing it leaves no error behind
+  const error = status === TestStatus.FAILED && !last.error ? new Error('Expected to fail, but passed') : last.error;
+
+  return {
+    name: getTestName(test),
+    status,
+    duration: last.endTime.getTime() - attempts[0].startTime.getTime(),
+    startTime: attempts[0].startTime,
+    endTime: last.endTime,
+    error: status === TestStatus.PASSED || status === TestStatus.FLAKY || status === TestStatus.SKIPPED ? undefined : error,
+    attachments: attempts.flatMap(attempt => attempt.attachments),
+    retries: lastResult.retry,
+    attempts,
+    steps: last.steps,
+    metadata
+  };
+}
+
+/**
+ * Translate one Playwright attempt
+ */
+function toTestAttempt(result: PlaywrightTestResult): TestAttempt {
+  const statuses: Record<PlaywrightTestResult['status'], TestStatus> = {
+    passed: TestStatus.PASSED,
+    failed: TestStatus.FAILED,
+    timedOut: TestStatus.TIMED_OUT,
+    skipped: TestStatus.SKIPPED,
+    interrupted: TestStatus.SKIPPED
+  };
+
+  return {
+    retry: result.retry,
+    status: statuses[result.status],
+    duration: result.duration,
+    startTime: result.startTime,
+    endTime: new Date(result.startTime.getTime() + result.duration),
+    error: result.error ? toError(result.error) : undefined,
+    // Attachments kept only in memory have no file for reports to link to
+    attachments: result.attachments
+      .filter((attachment): attachment is typeof attachment & { path: string } => attachment.path !== undefined)
+      .map((attachment): Attachment => ({ name: attachment.name, path: attachment.path, contentType: attachment.contentType })),
+    steps: toTestSteps(result.steps)
+  };
+}
+
+/**
+ * Translate test.step() steps, dropping framework steps such as hooks, fixtures and API calls
+ */
+function toTestSteps(steps: PlaywrightTestStep[]): TestStep[] {
+  return steps.flatMap(step => {
+    if (step.category !== 'test.step') {
+      return toTestSteps(step.steps);
+    }
+    return [{
+      title: step.title,
+      status: step.error ? TestStatus.FAILED : TestStatus.PASSED,
+      startTime: step.startTime,
+      endTime: new Date(step.startTime.getTime() + step.duration),
+      duration: step.duration,
+      error: step.error ? toError(step.error) : undefined,
+      steps: toTestSteps(step.steps)
+    }];
+  });
+}
+
+/**
+ * Turn a serialized Playwright error into an Error
+ */
+function toError(testError: TestError): Error {
+  const text = stripAnsi(testError.message ?? testError.value ?? 'Unknown error');
+  // Messages start with the error name, e.g. "Error: expect(locator).toBeVisible() failed"
+  const match = /^(\w*Error): ?/.exec(text);
+  const error = new Error(match ? text.substring(match[0].length) : text);
+  error.name = match ? match[1] : 'Error';
+  error.stack = testError.stack ? stripAnsi(testError.stack) : undefined;
+  return error;
+}
+
+export default PlaywrightReporterAdapter;
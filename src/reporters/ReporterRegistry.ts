@@ -0,0 +1,157 @@
+/**
+ * Reporter Registry
+ * Creates reporters by name, or from a module path, with options taken from the configuration
+ */
+import path from 'path';
+import { BaseReporter } from '@core/BaseReporter';
+import { ConfigManager } from '@core/ConfigManager';
+import { ReporterOptions } from '@core/types';
+import { Logger } from '@utils/Logger';
+import { JUnitReporter } from './JUnitReporter';
+import { AllureReporter } from './AllureReporter';
+import { HtmlReporter } from './HtmlReporter';
+import { FailureClusterReporter } from './FailureClusterReporter';
+import { TeamCityReporter } from './TeamCityReporter';
+import { MarkdownReporter } from './MarkdownReporter';
+
+/**
+ * Function creating a reporter from its options
+ */
+export type ReporterFactory = (options: ReporterOptions & Record<string, unknown>) => BaseReporter;
+
+/**
+ * Reporter as listed in the `reporters` config key: a name or module path, optionally with options
+ * @example ['junit', ['html', { outputFile: 'index.html' }], ['./reporters/slack.js', { channel: '#qa' }]]
+ */
+export type ReporterSpec = string | [string] | [string, ReporterOptions & Record<string, unknown>];
+
+/**
+ * Error raised when a reporter cannot be created
+ */
+export class ReporterError extends Error {
+  reporter: string;
+
+  constructor(message: string, reporter: string) {
+    super(message);
+    this.name = 'ReporterError';
+    this.reporter = reporter;
+  }
+}
+
+export class ReporterRegistry {
+  private static instance: ReporterRegistry;
+  private factories: Map<string, ReporterFactory> = new Map();
+  private logger: Logger = new Logger('ReporterRegistry');
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    this.register('junit', options => new JUnitReporter(options));
+    this.register('allure', options => new AllureReporter(options));
+    this.register('html', options => new HtmlReporter(options));
+    this.register('clusters', options => new FailureClusterReporter(options));
+    this.register('teamcity', options => new TeamCityReporter(options));
+    this.register('markdown', options => new MarkdownReporter(options));
+  }
+
+  /**
+   * Get the ReporterRegistry instance
+   */
+  static getInstance(): ReporterRegistry {
+    if (!ReporterRegistry.instance) {
+      ReporterRegistry.instance = new ReporterRegistry();
+    }
+    return ReporterRegistry.instance;
+  }
+
+  /**
+   * Register a reporter under a name, replacing any reporter registered under it
+   * @param name Name used in the `reporters` config key
+   * @param factory Function creating the reporter
+   */
+  register(name: string, factory: ReporterFactory): void {
+    this.factories.set(name, factory);
+  }
+
+  /**
+   * Check whether a reporter is registered under a name
+   * @param name Reporter name
+   */
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  /**
+   * Get the names of the registered reporters
+   */
+  getNames(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Create a reporter by name or module path
+   * Modules are resolved from the working directory and must export a BaseReporter subclass,
+   * as default export or as the module itself.
+   * @param name Registered name, module path or package name
+   * @param options Reporter options
+   * @throws ReporterError if the reporter is unknown or cannot be created
+   */
+  create(name: string, options: ReporterOptions & Record<string, unknown> = {}): BaseReporter {
+    const factory = this.factories.get(name);
+    if (factory) {
+      return this.instantiate(name, () => factory(options));
+    }
+
+    const isPath = name.startsWith('.') || path.isAbsolute(name);
+    let exported: unknown;
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const loaded: unknown = require(isPath ? path.resolve(process.cwd(), name) : require.resolve(name, { paths: [process.cwd()] }));
+      exported = typeof loaded === 'object' && loaded !== null && 'default' in loaded ? loaded.default : loaded;
+    } catch (error) {
+      const notFound = !isPath && (error as NodeJS.ErrnoException).code === 'MODULE_NOT_FOUND';
+      const reason = notFound
+        ? `it is neither a registered reporter (${this.getNames().join(', ')}) nor an installed module`
+        : error instanceof Error ? error.message : String(error);
+      throw new ReporterError(`Cannot load reporter '${name}': ${reason}`, name);
+    }
+
+    // Checked by shape, as the module may extend BaseReporter from another copy of the framework
+    const prototype: unknown = typeof exported === 'function' ? exported.prototype : undefined;
+    if (typeof prototype !== 'object' || prototype === null || !('generateReport' in prototype) || !('onTestEnd' in prototype)) {
+      throw new ReporterError(`Reporter module '${name}' must export a class extending BaseReporter`, name);
+    }
+    const ReporterClass = exported as new (reporterOptions: ReporterOptions) => BaseReporter;
+    return this.instantiate(name, () => new ReporterClass(options));
+  }
+
+  /**
+   * Create the reporters listed in the configuration
+   * A reporter that cannot be created is logged and left out, so the other reporters still run.
+   * @param specs Reporters to create (default: config reporters)
+   */
+  createFromConfig(specs: ReporterSpec[] = ConfigManager.getInstance().getConfig<ReporterSpec[]>('reporters', [])): BaseReporter[] {
+    const reporters: BaseReporter[] = [];
+    for (const spec of specs) {
+      const [name, options] = typeof spec === 'string' ? [spec, {}] : spec;
+      try {
+        reporters.push(this.create(name, options ?? {}));
+      } catch (error) {
+        this.logger.error(`Reporter '${name}' is skipped: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return reporters;
+  }
+
+  /**
+   * Call a reporter constructor, wrapping its errors in a ReporterError
+   */
+  private instantiate(name: string, construct: () => BaseReporter): BaseReporter {
+    try {
+      return construct();
+    } catch (error) {
+      throw new ReporterError(`Cannot create reporter '${name}': ${error instanceof Error ? error.message : String(error)}`, name);
+    }
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * TeamCity Reporter
+ * Writes TeamCity service messages while tests run, so the build shows tests live
+ * Messages carry a flowId, so TeamCity keeps apart the tests ParallelTestRunner runs concurrently.
+ * Each test runs in its own flow, started as a child of the flow of its suite.
+ * @see https://www.jetbrains.com/help/teamcity/service-messages.html
+ */
+import { BaseReporter } from '@core/BaseReporter';
+import { ReporterOptions, TestResult } from '@core/types';
+import { TestStatus } from '@core/constants';
+import { stripAnsi } from './format';
+
+/**
+ * TeamCity reporter options
+ */
+export interface TeamCityReporterOptions extends ReporterOptions {
+  // Function writing one service message (default: standard output)
+  write?: (line: string) => void;
+  // Prefix of the build statistic keys
+  statisticsPrefix?: string;
+}
+
+export class TeamCityReporter extends BaseReporter {
+  declare protected options: TeamCityReporterOptions;
+  // Started tests and the flows of their suites
+  private started: Map<string, string | undefined> = new Map();
+  // Flows of the open suites, latest last
+  private suiteFlows: string[] = [];
+
+  /**
+   * Creates a new TeamCityReporter instance
+   * @param options Reporter options
+   */
+  constructor(options: TeamCityReporterOptions = {}) {
+    super(options);
+    this.options = {
+      write: (line: string): void => {
+        process.stdout.write(`${line}\n`);
+      },
+      statisticsPrefix: 'Tests',
+      ...this.options
+    };
+  }
+
+  /**
+   * Open a test suite block
+   */
+  onSuiteStart(suiteName: string, _totalTests: number): void {
+    this.suiteFlows.push(this.mask(suiteName));
+    this.message('testSuiteStarted', { name: this.mask(suiteName), flowId: this.mask(suiteName) });
+  }
+
+  /**
+   * Close a test suite block
+   */
+  onSuiteEnd(suiteName: string, _totalPassed: number, _totalFailed: number, _totalSkipped: number): void {
+    this.message('testSuiteFinished', { name: this.mask(suiteName), flowId: this.mask(suiteName) });
+    const index = this.suiteFlows.lastIndexOf(this.mask(suiteName));
+    if (index !== -1) {
+      this.suiteFlows.splice(index, 1);
+    }
+  }
+
+  /**
+   * Report a started test
+   * Tests without a suite name belong to the latest open suite.
+   */
+  onTestStart(testName: string, suiteName?: string): void {
+    const suiteFlowId = this.getSuiteFlowId(suiteName);
+    this.started.set(testName, suiteFlowId);
+    this.startTest(this.mask(testName), suiteFlowId);
+  }
+
+  /**
+   * Report the outcome of a test
+   * Tests reported without a start, e.g. skipped by a tag filter, are started first
+   * in the suite named in `metadata.suite`, or else in the latest open suite.
+   */
+  onTestEnd(result: TestResult): void {
+    super.onTestEnd(result);
+    const masked = this.results[this.results.length - 1];
+    const name = masked.name;
+    const started = this.started.has(result.name);
+    const suiteFlowId = started ? this.started.get(result.name) : this.getSuiteFlowId(result.metadata?.suite as string | undefined);
+    const flowId = this.getTestFlowId(name, suiteFlowId);
+
+    if (started) {
+      this.started.delete(result.name);
+    } else {
+      this.startTest(name, suiteFlowId);
+    }
+
+    switch (masked.status) {
+      case TestStatus.SKIPPED:
+        this.message('testIgnored', { name, message: this.getSkipReason(masked) ?? 'Skipped', flowId });
+        break;
+      case TestStatus.FAILED:
+      case TestStatus.TIMED_OUT:
+        if (this.isQuarantinedFailure(masked)) {
+          // Quarantined tests must not fail the build
+          this.message('testIgnored', { name, message: `Quarantined test failed: ${masked.error?.message ?? 'Test failed'}`, flowId });
+          break;
+        }
+        this.message('testFailed', {
+          name,
+          message: masked.error?.message ?? (masked.hookFailures?.length ? 'Hook failed' : 'Test failed'),
+          details: this.getFailureDetails(masked),
+          flowId
+        });
+        break;
+      case TestStatus.FLAKY:
+        this.message('message', { text: `Test '${name}' passed after ${masked.retries ?? 0} retries and is flaky`, status: 'WARNING', flowId });
+        break;
+      default:
+        break;
+    }
+
+    this.message('testFinished', { name, duration: String(Math.round(masked.duration)), flowId });
+    if (suiteFlowId !== undefined) {
+      this.message('flowFinished', { flowId });
+    }
+  }
+
+  /**
+   * Report the run totals as build statistics
+   * Quarantined failures are reported as ignored tests, so they are counted apart from Failed.
+   */
+  generateReport(): Promise<void> {
+    const summary = this.getSummary();
+    const statistics: Record<string, number> = {
+      Total: summary.total,
+      Passed: summary.passed,
+      Failed: summary.failed,
+      Skipped: summary.skipped,
+      Flaky: summary.flaky,
+      Quarantined: summary.quarantined,
+      Duration: Math.round(summary.duration)
+    };
+
+    for (const [key, value] of Object.entries(statistics)) {
+      this.message('buildStatisticValue', { key: `${this.options.statisticsPrefix!}${key}`, value: String(value) });
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Clear test results and started tests
+   */
+  clearResults(): void {
+    super.clearResults();
+    this.started.clear();
+    this.suiteFlows = [];
+  }
+
+  /**
+   * Open the flow of a test under the flow of its suite and report the test as started
+   * @param name Masked test name
+   * @param suiteFlowId Flow of the suite of the test
+   */
+  private startTest(name: string, suiteFlowId: string | undefined): void {
+    const flowId = this.getTestFlowId(name, suiteFlowId);
+    if (suiteFlowId !== undefined) {
+      this.message('flowStarted', { flowId, parent: suiteFlowId });
+    }
+    this.message('testStarted', { name, captureStandardOutput: 'false', flowId });
+  }
+
+  /**
+   * Get the flow of a suite: the named suite, or else the latest open suite
+   * @param suiteName Suite name
+   */
+  private getSuiteFlowId(suiteName?: string): string | undefined {
+    return suiteName !== undefined ? this.mask(suiteName) : this.suiteFlows[this.suiteFlows.length - 1];
+  }
+
+  /**
+   * Get the flow of a test
+   * Each test is its own flow, as tests of a suite may run at the same time;
+   * the suite flow keeps apart tests of the same name in different suites.
+   * @param name Masked test name
+   * @param suiteFlowId Flow of the suite of the test
+   */
+  private getTestFlowId(name: string, suiteFlowId: string | undefined): string {
+    return suiteFlowId !== undefined ? `${suiteFlowId}/${name}` : name;
+  }
+
+  /**
+   * Write a service message
+   */
+  private message(name: string, attributes: Record<string, string>): void {
+    const rendered = Object.entries(attributes)
+      .map(([key, value]) => ` ${key}='${escapeServiceValue(value)}'`)
+      .join('');
+    this.options.write!(`##teamcity[${name}${rendered}]`);
+  }
+}
+
+/**
+ * Escape a service message attribute value
+ * @param value Attribute value
+ */
+export function escapeServiceValue(value: string): string {
+  return stripAnsi(value)
+    .replace(/\|/g, '||')
+    .replace(/'/g, "|'")
+    .replace(/\n/g, '|n')
+    .replace(/\r/g, '|r')
+    .replace(/\[/g, '|[')
+    .replace(/]/g, '|]')
+    .replace(/\u0085/g, '|x')
+    .replace(/\u2028/g, '|l')
+    .replace(/\u2029/g, '|p');
+}
@@ -0,0 +1,57 @@
+/**
+ * Formatting helpers shared by reporters
+ */
+
+/**
+ * Escape text for XML content and attribute values
+ * ANSI color codes and other characters not allowed in XML 1.0 are removed.
+ * @param text Text to escape
+ */
+export function escapeXml(text: string): string {
+  return stripAnsi(text)
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F￾￿]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Escape text for HTML content and attribute values
+ * ANSI color codes, common in assertion messages, are removed.
+ * @param text Text to escape
+ */
+export function escapeHtml(text: string): string {
+  return stripAnsi(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Remove ANSI escape codes from text
+ * @param text Text to clean
+ */
+export function stripAnsi(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/\u001B\[[0-9;]*[A-Za-z]/g, '');
+}
+
+/**
+ * Format a duration in milliseconds for people, e.g. 850ms, 12.3s or 2m 5s
+ * @param duration Duration in milliseconds
+ */
+export function formatDuration(duration: number): string {
+  if (duration < 1000) {
+    return `${Math.round(duration)}ms`;
+  }
+  if (duration < 60000) {
+    return `${(duration / 1000).toFixed(1)}s`;
+  }
+  const minutes = Math.floor(duration / 60000);
+  return `${minutes}m ${Math.round((duration % 60000) / 1000)}s`;
+}
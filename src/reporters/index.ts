@@ -0,0 +1,14 @@
+/**
+ * Reporters
+ * Ready-made BaseReporter implementations
+ */
+
+export * from './JUnitReporter';
+export * from './AllureReporter';
+export * from './HtmlReporter';
+export * from './FailureClusterReporter';
+export * from './TeamCityReporter';
+export * from './MarkdownReporter';
+export * from './PlaywrightReporterAdapter';
+export * from './CompositeReporter';
+export * from './ReporterRegistry';
@@ -4,6 +4,8 @@
  */
 import { Page, Locator } from 'playwright';
 import { Logger } from '@utils/Logger';
+import { StepRecorder, stepScreenshot } from '@core/StepRecorder';
+import { StepOptions } from '@core/types';
 
 export class BaseComponent {
   protected logger: Logger;
@@ -65,6 +67,23 @@ export class BaseComponent {
     return this.root;
   }
 
+  /**
+   * Run a named step and record it in the result of the running test
+   * Outside of a BaseTest run the body is simply executed.
+   * @param title Step title
+   * @param body Step body
+   * @param options Step options
+   */
+  async step<T>(title: string, body: () => Promise<T>, options: StepOptions = {}): Promise<T> {
+    this.logger.debug(`Step: ${title}`);
+    const recorder = StepRecorder.current();
+    if (!recorder) {
+      return body();
+    }
+
+    return recorder.step(title, body, options, stepScreenshot(this.constructor.name, this.root));
+  }
+
   /**
    * Take a screenshot of the component
    * @param name Name for the screenshot file
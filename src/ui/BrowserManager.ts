@@ -5,6 +5,7 @@
 import { Browser, BrowserContext, BrowserType, Page, chromium, firefox, webkit } from 'playwright';
 import { TestConfig } from '@core/types';
 import { Logger } from '@utils/Logger';
+import { SessionManager } from '@core/SessionManager';
 
 // Predefined device configurations
 export interface DeviceConfig {
@@ -107,12 +108,20 @@ export class BrowserManager {
    * Create a new browser context
    * @param browser Browser instance
    * @param options Context options
+   * @param role Role whose saved login session the context starts with
    */
   async createContext(
     browser: Browser,
-    options: Parameters<Browser['newContext']>[0] = {}
+    options: Parameters<Browser['newContext']>[0] = {},
+    role?: string
   ): Promise<BrowserContext> {
-    this.logger.info('Creating new browser context');
+    this.logger.info(`Creating new browser context${role ? ` as '${role}'` : ''}`);
+    if (role) {
+      options = {
+        ...options,
+        storageState: await SessionManager.getInstance().getStorageState(role, browser)
+      };
+    }
     const context = await browser.newContext(options);
 
     // Generate a unique ID for the context
@@ -161,7 +170,7 @@ export class BrowserManager {
     };
 
     // Create context
-    const context = await this.createContext(browser, contextOptions);
+    const context = await this.createContext(browser, contextOptions, config.role);
 
     // Create page
     const page = await this.createPage(context, config.baseUrl);
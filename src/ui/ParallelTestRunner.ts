@@ -5,37 +5,53 @@
 import os from 'os';
 import { EventEmitter } from 'events';
 import { Logger } from '@utils/Logger';
-import { TestResult } from '@core/types';
-import { TestStatus } from '@core/constants';
+import { HookFailure, TestResult, TestTask } from '@core/types';
+import { BaseReporter } from '@core/BaseReporter';
+import { FAILURE_STATUSES, TestStatus } from '@core/constants';
+import { HookManager } from '@core/hooks';
+import { ConfigManager } from '@core/ConfigManager';
+import { TagExpression } from '@core/TagExpression';
+import { Quarantine } from '@core/Quarantine';
+import { RunHistory } from '@core/RunHistory';
+import { runWithTimeout, TimeoutError } from '@core/timeout';
+
+export type { TestTask } from '@core/types';
 
 export interface ParallelTestOptions {
   // Maximum number of parallel workers (default: CPU cores - 1)
   maxWorkers?: number;
-  // Timeout for each test in milliseconds
+  // Timeout for each task in milliseconds, unless the task sets its own (0: no limit).
+  // Tasks running BaseTest.run() are bounded by its phase timeouts instead.
   timeout?: number;
   // Whether to fail fast on first test failure
   failFast?: boolean;
-  // Whether to retry failed tests
+  // Whether the runner re-runs failed tasks (default: false; BaseTest retries tests itself
+  // according to the `retries` config and keeps the attempt history and flaky status)
   retryFailedTests?: boolean;
-  // Maximum number of retries for failed tests
+  // Maximum number of runner-level retries for failed tasks
   maxRetries?: number;
-}
-
-export interface TestTask {
-  id: string;
-  name: string;
-  testFn: () => Promise<TestResult>;
-  retryCount?: number;
-  result?: TestResult;
+  // Tag expression selecting tasks to run, e.g. '@smoke and not @slow'
+  // (default: ConfigManager tag filter / TEST_TAGS)
+  tagFilter?: string;
+  // Tests whose failures do not fail the run: exact names or patterns with * wildcards
+  // (default: config quarantine)
+  quarantine?: string[];
+  // Whether to store the results of every run in the run history
+  recordHistory?: boolean;
+  // Reporter receiving the start and final result of every task and generating its report
+  // at the end of the run, e.g. a CompositeReporter of the configured reporters
+  reporter?: BaseReporter;
 }
 
 export class ParallelTestRunner extends EventEmitter {
-  private options: Required<ParallelTestOptions>;
+  private options: Required<Omit<ParallelTestOptions, 'reporter'>>;
+  private reporter?: BaseReporter;
   private logger: Logger;
   private tasks: TestTask[] = [];
   private runningTasks: Map<string, TestTask> = new Map();
   private completedTasks: TestTask[] = [];
   private failedTasks: TestTask[] = [];
+  private quarantine: Quarantine;
   private isRunning = false;
 
   /**
@@ -50,10 +66,16 @@ export class ParallelTestRunner extends EventEmitter {
       maxWorkers: Math.max(1, os.cpus().length - 1), // Default to CPU cores - 1
       timeout: 30000, // 30 seconds default timeout
       failFast: false,
-      retryFailedTests: true,
+      retryFailedTests: false,
       maxRetries: 1,
+      tagFilter: ConfigManager.getInstance().getTagFilter() ?? '',
+      quarantine: ConfigManager.getInstance().getConfig<string[]>('quarantine', []),
+      recordHistory: true,
       ...options
     };
+    this.reporter = options.reporter;
+
+    this.quarantine = new Quarantine(this.options.quarantine);
 
     this.logger = new Logger('ParallelTestRunner');
   }
@@ -85,36 +107,136 @@ export class ParallelTestRunner extends EventEmitter {
       throw new Error('Test runner is already running');
     }
 
+    const tagFilter = TagExpression.parse(this.options.tagFilter);
+
+    const startTime = new Date();
     this.isRunning = true;
     this.runningTasks.clear();
     this.completedTasks = [];
     this.failedTasks = [];
 
+    this.skipFilteredTasks(tagFilter);
+
     this.logger.info(`Starting parallel test execution with ${this.options.maxWorkers} workers`);
     this.emit('run:start', { totalTasks: this.tasks.length });
 
-    // Start processing tasks
-    await this.processTasks();
+    // Run-level hooks apply when any queued task matches their tags
+    const hooks = HookManager.getInstance();
+    const runTags = Array.from(new Set(this.tasks.flatMap(task => task.tags ?? [])));
+
+    const hookFailures = await hooks.runBeforeAll(runTags);
+    if (hookFailures.length > 0) {
+      this.failAllTasks(hookFailures);
+    } else {
+      // Start processing tasks
+      await this.processTasks();
+    }
+
+    hookFailures.push(...(await hooks.runAfterAll(runTags)));
+    hookFailures.forEach(failure => this.emit('hook:error', failure));
 
     this.isRunning = false;
 
     // Combine results
     const results = [...this.completedTasks].map(task => task.result!);
 
+    // Failures of quarantined tests are reported separately and do not count as failed
+    const quarantined = results.filter(r => FAILURE_STATUSES.includes(r.status) && r.metadata?.quarantined === true).length;
     const summary = {
       total: results.length,
       passed: results.filter(r => r.status === TestStatus.PASSED).length,
-      failed: results.filter(r => r.status === TestStatus.FAILED).length,
+      failed: results.filter(r => FAILURE_STATUSES.includes(r.status)).length - quarantined,
       skipped: results.filter(r => r.status === TestStatus.SKIPPED).length,
+      flaky: results.filter(r => r.status === TestStatus.FLAKY).length,
+      quarantined,
       duration: results.reduce((sum, r) => sum + r.duration, 0)
     };
 
-    this.logger.info(`Test execution completed: ${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped`);
-    this.emit('run:end', { results, summary });
+    this.logger.info(`Test execution completed: ${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped, ${summary.flaky} flaky${quarantined > 0 ? `, ${quarantined} quarantined failures` : ''}`);
+
+    if (this.options.recordHistory) {
+      try {
+        await new RunHistory().saveRun(results, startTime);
+      } catch (error) {
+        this.logger.warn(`Could not save the run history: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (this.reporter) {
+      try {
+        await this.reporter.generateReport();
+      } catch (error) {
+        this.logger.warn(`Could not generate the report: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    this.emit('run:end', { results, summary, hookFailures });
 
     return results;
   }
 
+  /**
+   * Move tasks not matching the tag expression to completed tasks as skipped
+   * @param tagFilter Tag expression selecting tasks to run
+   */
+  private skipFilteredTasks(tagFilter: TagExpression): void {
+    if (tagFilter.isEmpty()) {
+      return;
+    }
+
+    const selected: TestTask[] = [];
+    for (const task of this.tasks) {
+      if (tagFilter.matches(task.tags)) {
+        selected.push(task);
+        continue;
+      }
+
+      const now = new Date();
+      task.result = {
+        name: task.name,
+        status: TestStatus.SKIPPED,
+        startTime: now,
+        endTime: now,
+        duration: 0,
+        metadata: { skipReason: `Excluded by tag expression "${tagFilter.toString()}"`, tags: task.tags ?? [] }
+      };
+      this.completedTasks.push(task);
+      this.report(reporter => reporter.onTestEnd(task.result!));
+      this.emit('task:skip', { task, result: task.result });
+    }
+
+    this.logger.info(`Tag expression "${tagFilter.toString()}" selected ${selected.length} of ${this.tasks.length} tests`);
+    this.tasks = selected;
+  }
+
+  /**
+   * Mark all queued tasks as failed without running them
+   * Used when a beforeAll hook fails
+   * @param hookFailures Failures of the beforeAll hooks
+   */
+  private failAllTasks(hookFailures: HookFailure[]): void {
+    this.logger.error('beforeAll hooks failed, tests will not be executed');
+
+    for (const task of this.tasks) {
+      const now = new Date();
+      task.result = {
+        name: task.name,
+        status: TestStatus.FAILED,
+        startTime: now,
+        endTime: now,
+        duration: 0,
+        error: hookFailures[0].error,
+        hookFailures
+      };
+      this.completedTasks.push(task);
+      this.failedTasks.push(task);
+      this.report(reporter => reporter.onTestEnd(task.result!));
+      this.emit('task:end', { task, result: task.result });
+    }
+
+    this.tasks = [];
+  }
+
   /**
    * Process tasks in the queue
    */
@@ -148,7 +270,7 @@ export class ParallelTestRunner extends EventEmitter {
               // Process completed task
               this.runningTasks.delete(task.id);
 
-              if (result.status === TestStatus.FAILED &&
+              if (FAILURE_STATUSES.includes(result.status) &&
                   this.options.retryFailedTests &&
                   (task.retryCount || 0) < this.options.maxRetries) {
                 // Retry failed task
@@ -160,12 +282,7 @@ export class ParallelTestRunner extends EventEmitter {
                 this.tasks.unshift(retryTask);
               } else {
                 // Mark task as completed
-                task.result = result;
-                this.completedTasks.push(task);
-
-                if (result.status === TestStatus.FAILED) {
-                  this.failedTasks.push(task);
-                }
+                this.completeTask(task, result);
               }
 
               // Process next batch
@@ -198,9 +315,7 @@ export class ParallelTestRunner extends EventEmitter {
                 this.tasks.unshift(retryTask);
               } else {
                 // Mark task as failed
-                task.result = failureResult;
-                this.completedTasks.push(task);
-                this.failedTasks.push(task);
+                this.completeTask(task, failureResult);
               }
 
               // Continue processing
@@ -214,6 +329,27 @@ export class ParallelTestRunner extends EventEmitter {
     });
   }
 
+  /**
+   * Store the final result of a task
+   * Failures of quarantined tasks are marked in the result metadata and do not stop the run.
+   * @param task Completed task
+   * @param result Final result of the task
+   */
+  private completeTask(task: TestTask, result: TestResult): void {
+    const failed = FAILURE_STATUSES.includes(result.status);
+    const quarantined = this.quarantine.isQuarantined(task.name);
+
+    task.result = quarantined ? { ...result, metadata: { ...result.metadata, quarantined: true } } : result;
+    this.completedTasks.push(task);
+    this.report(reporter => reporter.onTestEnd(task.result!));
+
+    if (failed && quarantined) {
+      this.logger.warn(`Quarantined test failed: ${task.name}`);
+    } else if (failed) {
+      this.failedTasks.push(task);
+    }
+  }
+
   /**
    * Execute a single test task with timeout
    * @param task Test task to execute
@@ -221,21 +357,18 @@ export class ParallelTestRunner extends EventEmitter {
   private async executeTask(task: TestTask): Promise<TestResult> {
     this.logger.info(`Starting test: ${task.name}${task.retryCount ? ` (retry ${task.retryCount})` : ''}`);
     this.emit('task:start', { task });
+    if (!task.retryCount) {
+      this.report(reporter => reporter.onTestStart(task.name));
+    }
 
+    const timeout = task.timeout ?? this.options.timeout;
     try {
-      // Create a promise with timeout
-      const timeoutPromise = new Promise<TestResult>((_, reject) => {
-        const id = setTimeout(() => {
-          clearTimeout(id);
-          reject(new Error(`Test timed out after ${this.options.timeout}ms`));
-        }, this.options.timeout);
-      });
-
       // Race between test execution and timeout
-      const result = await Promise.race([
-        task.testFn(),
-        timeoutPromise
-      ]);
+      const result = await runWithTimeout(
+        () => task.testFn(),
+        timeout,
+        `Test timed out after ${timeout}ms`
+      );
 
       this.logger.info(`Completed test: ${task.name} (${result.status})`);
       this.emit('task:end', { task, result });
@@ -247,7 +380,7 @@ export class ParallelTestRunner extends EventEmitter {
       // Create failure result
       const result: TestResult = {
         name: task.name,
-        status: TestStatus.FAILED,
+        status: error instanceof TimeoutError ? TestStatus.TIMED_OUT : TestStatus.FAILED,
         startTime: new Date(),
         endTime: new Date(),
         duration: 0,
@@ -260,6 +393,20 @@ export class ParallelTestRunner extends EventEmitter {
     }
   }
 
+  /**
+   * Pass an event to the reporter, logging its errors instead of failing the run
+   */
+  private report(callback: (reporter: BaseReporter) => void): void {
+    if (!this.reporter) {
+      return;
+    }
+    try {
+      callback(this.reporter);
+    } catch (error) {
+      this.logger.warn(`Reporter failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * Clear all tasks
    */
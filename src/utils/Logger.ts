@@ -2,7 +2,8 @@
  * Logger utility
  * Provides logging functionality with different log levels
  */
-import { LogLevel } from '@core/constants';
+import { LogLevel } from '../core/constants';
+import { SecretMasker } from './SecretMasker';
 
 export class Logger {
   private readonly context: string;
@@ -76,8 +77,11 @@ export class Logger {
     const shouldLog = this.shouldLogLevel(level);
     if (!shouldLog) return;
 
+    // Resolved secrets never reach the output
+    const masker = SecretMasker.getInstance();
     const timestamp = new Date().toISOString();
-    const formattedMessage = `[${timestamp}] [${level.toUpperCase()}] [${this.context}] ${message}`;
+    const formattedMessage = masker.mask(`[${timestamp}] [${level.toUpperCase()}] [${this.context}] ${message}`);
+    data = masker.maskValue(data);
 
     switch (level) {
       case LogLevel.DEBUG:
@@ -0,0 +1,118 @@
+/**
+ * Secret Masker
+ * Replaces resolved secret values in text printed by loggers and reporters
+ */
+
+export class SecretMasker {
+  private static instance: SecretMasker;
+  static readonly MASK = '******';
+  // Shorter values would mask unrelated text all over the output
+  private static readonly MIN_LENGTH = 3;
+
+  private secrets: Set<string> = new Set();
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {}
+
+  /**
+   * Get the SecretMasker instance
+   */
+  static getInstance(): SecretMasker {
+    if (!SecretMasker.instance) {
+      SecretMasker.instance = new SecretMasker();
+    }
+    return SecretMasker.instance;
+  }
+
+  /**
+   * Register a secret value to be masked from now on
+   * @param secret Secret value
+   */
+  register(secret: string): void {
+    if (secret.length >= SecretMasker.MIN_LENGTH) {
+      this.secrets.add(secret);
+    }
+  }
+
+  /**
+   * Check whether any secret is registered
+   */
+  hasSecrets(): boolean {
+    return this.secrets.size > 0;
+  }
+
+  /**
+   * Forget all registered secrets
+   */
+  clear(): void {
+    this.secrets.clear();
+  }
+
+  /**
+   * Mask all registered secrets in a text
+   * @param text Text to mask
+   */
+  mask(text: string): string {
+    let masked = text;
+    // Longest first, so a secret containing another one is masked as a whole
+    for (const secret of Array.from(this.secrets).sort((a, b) => b.length - a.length)) {
+      masked = masked.split(secret).join(SecretMasker.MASK);
+    }
+    return masked;
+  }
+
+  /**
+   * Mask all registered secrets in a value
+   * Strings, errors, arrays and plain objects are copied with their text masked; other values are returned as is.
+   * @param value Value to mask
+   */
+  maskValue<T>(value: T): T {
+    if (!this.hasSecrets()) {
+      return value;
+    }
+    return this.maskAny(value, new WeakMap()) as T;
+  }
+
+  private maskAny(value: unknown, seen: WeakMap<object, unknown>): unknown {
+    if (typeof value === 'string') {
+      return this.mask(value);
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    if (seen.has(value)) {
+      return seen.get(value);
+    }
+
+    if (value instanceof Error) {
+      const masked = new Error(this.mask(value.message)) as Error & Record<string, unknown>;
+      seen.set(value, masked);
+      masked.name = value.name;
+      masked.stack = value.stack ? this.mask(value.stack) : undefined;
+      for (const [key, item] of Object.entries(value)) {
+        masked[key] = this.maskAny(item, seen);
+      }
+      return masked;
+    }
+
+    if (Array.isArray(value)) {
+      const masked: unknown[] = [];
+      seen.set(value, masked);
+      value.forEach(item => masked.push(this.maskAny(item, seen)));
+      return masked;
+    }
+
+    if (Object.getPrototypeOf(value) === Object.prototype) {
+      const masked: Record<string, unknown> = {};
+      seen.set(value, masked);
+      for (const [key, item] of Object.entries(value)) {
+        masked[key] = this.maskAny(item, seen);
+      }
+      return masked;
+    }
+
+    return value;
+  }
+}
@@ -124,4 +124,5 @@ export const Wait = {
 
 // Export other utilities
 export * from './Logger';
+export * from './SecretMasker';
 
@@ -0,0 +1,126 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCli } from '../../src/cli';
+import { ConfigManager } from '../../src/core/ConfigManager';
+
+test.describe('ptm config', () => {
+  let cwd: string;
+  let dir: string;
+  let env: NodeJS.ProcessEnv;
+  let out: string[];
+  let err: string[];
+
+  test.beforeEach(() => {
+    cwd = process.cwd();
+    env = { ...process.env };
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-'));
+    fs.mkdirSync(path.join(dir, 'config'));
+    fs.writeFileSync(path.join(dir, 'config', 'base.json'), JSON.stringify({
+      baseUrl: 'https://example.com',
+      api: { headers: { 'x-tenant': 'acme' } }
+    }));
+    fs.writeFileSync(path.join(dir, 'config', 'environments.json'), JSON.stringify([
+      { name: 'dev', baseUrl: 'https://dev.example.com', apiUrl: 'https://api.dev.example.com' },
+      {
+        name: 'staging',
+        baseUrl: 'https://staging.example.com',
+        apiUrl: 'https://api.staging.example.com',
+        credentials: { password: 'secret://env/STAGING_PASSWORD' }
+      }
+    ]));
+    process.chdir(dir);
+    process.env.TEST_ENV = 'dev';
+    delete process.env.STAGING_PASSWORD;
+    ConfigManager.getInstance().reload();
+    out = [];
+    err = [];
+  });
+
+  test.afterEach(() => {
+    ConfigManager.getInstance().setEnvironment('dev');
+    process.chdir(cwd);
+    process.env = env;
+    fs.rmSync(dir, { recursive: true, force: true });
+    ConfigManager.getInstance().reload();
+  });
+
+  function run(...argv: string[]): number {
+    return runCli(argv, line => out.push(line), line => err.push(line));
+  }
+
+  test('print --key должен выводить значение и его источник', () => {
+    expect(run('config', 'print', '--key', 'api.headers')).toBe(0);
+
+    expect(out).toEqual([
+      'Environment: dev',
+      'api.headers.x-tenant = "acme"  # base: config/base.json'
+    ]);
+    expect(err).toEqual([]);
+  });
+
+  test('print --key --json должен выводить значения в формате JSON', () => {
+    expect(run('config', 'print', '--key', 'baseUrl', '--json')).toBe(0);
+
+    expect(JSON.parse(out.join('\n'))).toEqual({
+      baseUrl: { value: 'https://example.com', source: 'base: config/base.json' }
+    });
+  });
+
+  test('print должен называть определение окружения, из которого взято значение', () => {
+    fs.writeFileSync(path.join(dir, 'config', 'environments.json'), JSON.stringify([
+      { name: 'dev', baseUrl: 'https://dev.example.com', apiUrl: 'https://api.dev.example.com' },
+      { name: 'qa', extends: 'dev', apiUrl: 'https://api.qa.example.com', overlays: { eu: { baseUrl: 'https://eu.qa.example.com' } } }
+    ]));
+    ConfigManager.getInstance().reload();
+
+    expect(run('config', 'print', '--env', 'qa', '--overlays', 'eu', '--key', 'environment', '--json')).toBe(0);
+
+    expect(JSON.parse(out.join('\n'))).toEqual({
+      'environment.name': { value: 'qa', source: 'environments: config/environments.json (qa)' },
+      'environment.baseUrl': { value: 'https://eu.qa.example.com', source: 'environments: config/environments.json (overlay eu)' },
+      'environment.apiUrl': { value: 'https://api.qa.example.com', source: 'environments: config/environments.json (qa)' }
+    });
+
+    out = [];
+    delete process.env.TEST_OVERLAYS;
+    ConfigManager.getInstance().reload();
+    expect(run('config', 'print', '--key', 'environment.baseUrl')).toBe(0);
+    expect(out[1]).toBe('environment.baseUrl = "https://dev.example.com"  # environments: config/environments.json (inherited from dev)');
+  });
+
+  test('print должен называть значения по умолчанию без повтора источника', () => {
+    expect(run('config', 'print', '--key', 'retries', '--json')).toBe(0);
+
+    expect(JSON.parse(out.join('\n'))).toEqual({ retries: { value: 0, source: 'defaults' } });
+  });
+
+  test('print --key должен завершаться с кодом 1 для незаданного ключа', () => {
+    expect(run('config', 'print', '--key', 'api.url')).toBe(1);
+
+    expect(err).toEqual(["Key 'api.url' is not set"]);
+  });
+
+  test('validate должен проверять текущее окружение', () => {
+    expect(run('config', 'validate')).toBe(0);
+
+    expect(out).toEqual(['✓ dev', 'Configuration is valid']);
+  });
+
+  test('validate --all должен сообщать об окружениях с неразрешимыми секретами', () => {
+    expect(run('config', 'validate', '--all')).toBe(1);
+
+    expect(out[0]).toBe('✓ dev');
+    expect(out[1]).toMatch(/^✗ staging\n.*STAGING_PASSWORD/);
+    expect(out[2]).toBe('Configuration is invalid for: staging');
+  });
+
+  test('должен выводить справку и код 2 для неизвестной команды', () => {
+    expect(run('config', 'lint')).toBe(2);
+    expect(err[0]).toMatch(/^Usage:/);
+
+    expect(run('--help')).toBe(0);
+    expect(out[0]).toMatch(/^Usage:/);
+  });
+});
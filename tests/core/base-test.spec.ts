@@ -0,0 +1,302 @@
+import { test, expect } from '@playwright/test';
+import { Browser, chromium } from 'playwright';
+import { BaseTest } from '../../src/core/BaseTest';
+import { ConfigManager } from '../../src/core/ConfigManager';
+import { DEFAULT_TIMEOUT, TestStatus } from '../../src/core/constants';
+import { TestConfig } from '../../src/core/types';
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Test running without a browser: setup and teardown only attach a log per attempt
+ */
+abstract class StubbedTest extends BaseTest {
+  async setup(): Promise<void> {
+    this.attach({ name: `setup ${this.retry}`, path: `logs/setup-${this.retry}.log`, contentType: 'text/plain' });
+  }
+
+  async teardown(): Promise<void> {
+    this.attach({ name: `teardown ${this.retry}`, path: `logs/teardown-${this.retry}.log`, contentType: 'text/plain' });
+  }
+}
+
+test.describe('BaseTest', () => {
+  const config = ConfigManager.getInstance();
+
+  test.afterEach(() => {
+    config.setTestConfig({ retries: 0, timeout: DEFAULT_TIMEOUT });
+  });
+
+  test('должен повторять упавшую попытку и отмечать прошедший с повтора тест как нестабильный', async () => {
+    class FlakyTest extends StubbedTest {
+      runs = 0;
+
+      async executeTest(): Promise<void> {
+        this.runs++;
+        if (this.runs === 1) {
+          throw new Error('first attempt fails');
+        }
+      }
+    }
+    config.setTestConfig({ retries: 2 });
+    const flaky = new FlakyTest();
+
+    const result = await flaky.run();
+
+    expect(flaky.runs).toBe(2);
+    expect(result).toMatchObject({ status: TestStatus.FLAKY, retries: 1 });
+    expect(result.error).toBeUndefined();
+    expect(result.attempts!.map(attempt => [attempt.retry, attempt.status, attempt.error?.message])).toEqual([
+      [0, TestStatus.FAILED, 'first attempt fails'],
+      [1, TestStatus.PASSED, undefined]
+    ]);
+    expect(result.attempts!.map(attempt => attempt.attachments.map(attachment => attachment.name))).toEqual([
+      ['setup 0', 'teardown 0'],
+      ['setup 1', 'teardown 1']
+    ]);
+    expect(result.attachments!.map(attachment => attachment.name)).toEqual(['setup 0', 'teardown 0', 'setup 1', 'teardown 1']);
+  });
+
+  test('должен сообщать ошибку последней попытки, когда повторы исчерпаны', async () => {
+    class BrokenTest extends StubbedTest {
+      async executeTest(): Promise<void> {
+        throw new Error(`attempt ${this.retry} fails`);
+      }
+    }
+    config.setTestConfig({ retries: 1 });
+
+    const result = await new BrokenTest().run();
+
+    expect(result).toMatchObject({ status: TestStatus.FAILED, retries: 1 });
+    expect(result.error?.message).toBe('attempt 1 fails');
+    expect(result.attempts!.map(attempt => attempt.status)).toEqual([TestStatus.FAILED, TestStatus.FAILED]);
+  });
+
+  test('должен брать глобальные настройки поверх настроек конструктора', async () => {
+    class FailingTest extends StubbedTest {
+      async executeTest(): Promise<void> {
+        throw new Error('boom');
+      }
+    }
+
+    const result = await new FailingTest({ retries: 3 }).run();
+
+    expect(result.attempts).toHaveLength(1);
+  });
+
+  test('должен сообщать мягкие проверки вместе с ошибкой, остановившей тест', async () => {
+    class CheckoutTest extends StubbedTest {
+      async executeTest(): Promise<void> {
+        await this.soft.check(false, 'banner missing');
+        throw new Error('Pay button not found');
+      }
+    }
+
+    const result = await new CheckoutTest().run();
+
+    expect(result.status).toBe(TestStatus.FAILED);
+    expect(result.error?.message).toBe('Pay button not found\n\nAlso 1 soft assertion(s) failed:\n  1) banner missing');
+  });
+
+  test('должен падать с мягкими проверками после завершения тела теста', async () => {
+    class CheckoutTest extends StubbedTest {
+      async executeTest(): Promise<void> {
+        await this.soft.check(false, 'banner missing');
+        await this.soft.check(false, 'total is wrong');
+      }
+    }
+
+    const result = await new CheckoutTest().run();
+
+    expect(result.status).toBe(TestStatus.FAILED);
+    expect(result.error?.name).toBe('SoftAssertionError');
+    expect(result.error?.message).toBe('2 soft assertion(s) failed:\n  1) banner missing\n  2) total is wrong');
+  });
+
+  test.describe('таймауты фаз', () => {
+    test('должен прерывать тело теста по таймауту, сообщать о нём и всё равно выполнять teardown', async () => {
+      class SlowTest extends StubbedTest {
+        aborted = false;
+
+        async executeTest(): Promise<void> {
+          const signal = this.signal;
+          await delay(200);
+          this.aborted = signal.aborted;
+        }
+      }
+      config.setTestConfig({ timeout: 50 });
+      const slow = new SlowTest();
+
+      const result = await slow.run();
+
+      expect(result.status).toBe(TestStatus.TIMED_OUT);
+      expect(result.error?.name).toBe('TimeoutError');
+      expect(result.error?.message).toBe('Test timed out after 50ms');
+      expect(result.attachments!.map(attachment => attachment.name)).toEqual(['setup 0', 'teardown 0']);
+
+      await delay(200);
+      expect(slow.aborted).toBe(true);
+    });
+
+    test('должен ограничивать setup собственным таймаутом и не запускать тело теста', async () => {
+      class SlowSetupTest extends StubbedTest {
+        ran = false;
+
+        async setup(): Promise<void> {
+          await delay(200);
+        }
+
+        async executeTest(): Promise<void> {
+          this.ran = true;
+        }
+      }
+      const slow = new SlowSetupTest({ setupTimeout: 30 });
+
+      const result = await slow.run();
+
+      expect(result.status).toBe(TestStatus.TIMED_OUT);
+      expect(result.error?.message).toBe('Test setup timed out after 30ms');
+      expect(slow.ran).toBe(false);
+    });
+
+    test('должен отмечать прошедший тест как превысивший время, если не уложился teardown', async () => {
+      class SlowTeardownTest extends StubbedTest {
+        async teardown(): Promise<void> {
+          await delay(200);
+        }
+
+        async executeTest(): Promise<void> {
+          // Passes
+        }
+      }
+
+      const result = await new SlowTeardownTest({ teardownTimeout: 30 }).run();
+
+      expect(result.status).toBe(TestStatus.TIMED_OUT);
+      expect(result.error?.message).toBe('Test teardown timed out after 30ms');
+    });
+
+    test('должен закрывать браузер, запустившийся после таймаута setup', async () => {
+      class LaunchingTest extends BaseTest {
+        async executeTest(): Promise<void> {
+          // Never reached
+        }
+
+        hasBrowser(): boolean {
+          return this.browser !== null;
+        }
+      }
+      let closed = false;
+      const browser = { close: () => Promise.resolve(void (closed = true)) } as unknown as Browser;
+      const launch = chromium.launch.bind(chromium);
+      chromium.launch = () => delay(100).then(() => browser);
+
+      try {
+        const launching = new LaunchingTest({ setupTimeout: 30, browserName: 'chromium' });
+        const result = await launching.run();
+
+        expect(result.error?.message).toBe('Test setup timed out after 30ms');
+        expect(closed).toBe(false);
+
+        await delay(200);
+        expect(closed).toBe(true);
+        expect(launching.hasBrowser()).toBe(false);
+      } finally {
+        chromium.launch = launch;
+      }
+    });
+  });
+
+  test.describe('аннотации', () => {
+    class AnnotatedTest extends StubbedTest {
+      ran = false;
+
+      constructor(private readonly body: (test: AnnotatedTest) => void = () => undefined, config: TestConfig = {}) {
+        super(config);
+      }
+
+      async executeTest(): Promise<void> {
+        this.body(this);
+        this.ran = true;
+      }
+
+      skipWhen(condition: boolean, reason: string): void {
+        this.skip(() => condition, reason);
+      }
+
+      failWith(reason: string): void {
+        this.fail(reason);
+      }
+    }
+
+    test('должен пропускать тест по условию из конфигурации, не запуская его', async () => {
+      const annotated = new AnnotatedTest(undefined, {
+        skip: { when: context => context.browserName === 'chromium', reason: 'Not supported in Chromium' }
+      });
+
+      const result = await annotated.run();
+
+      expect(annotated.ran).toBe(false);
+      expect(result.status).toBe(TestStatus.SKIPPED);
+      expect(result.metadata).toMatchObject({
+        skipReason: 'Not supported in Chromium',
+        annotations: [{ type: 'skip', description: 'Not supported in Chromium' }]
+      });
+      expect(result.attempts).toEqual([]);
+    });
+
+    test('должен запускать тест, если условие пропуска не выполнено', async () => {
+      const annotated = new AnnotatedTest(undefined, { skip: { when: () => false, reason: 'never' } });
+
+      const result = await annotated.run();
+
+      expect(annotated.ran).toBe(true);
+      expect(result.status).toBe(TestStatus.PASSED);
+    });
+
+    test('должен останавливать тест условным skip() с указанной причиной', async () => {
+      const annotated = new AnnotatedTest(current => current.skipWhen(true, 'Drag and drop is broken'));
+
+      const result = await annotated.run();
+
+      expect(annotated.ran).toBe(false);
+      expect(result.status).toBe(TestStatus.SKIPPED);
+      expect(result.error).toBeUndefined();
+      expect(result.metadata?.skipReason).toBe('Drag and drop is broken');
+    });
+
+    test('никогда не должен выполнять тело теста с fixme', async () => {
+      let called = false;
+      const annotated = new AnnotatedTest(() => void (called = true), { fixme: true });
+
+      const result = await annotated.run();
+
+      expect(called).toBe(false);
+      expect(result.status).toBe(TestStatus.SKIPPED);
+      expect(result.metadata?.skipReason).toBe('Marked as fixme');
+    });
+
+    test('должен считать проваленным прошедший тест, который ожидался упавшим', async () => {
+      const annotated = new AnnotatedTest(current => current.failWith('JIRA-42'));
+
+      const result = await annotated.run();
+
+      expect(result.status).toBe(TestStatus.FAILED);
+      expect(result.error?.message).toBe('Expected to fail, but passed (JIRA-42)');
+      expect(result.metadata?.annotations).toEqual([{ type: 'fail', description: 'JIRA-42' }]);
+    });
+
+    test('должен считать прошедшим упавший тест, который ожидался упавшим', async () => {
+      const annotated = new AnnotatedTest(() => {
+        throw new Error('known bug');
+      }, { fail: 'JIRA-42' });
+
+      const result = await annotated.run();
+
+      expect(result.status).toBe(TestStatus.PASSED);
+      expect(result.error).toBeUndefined();
+      expect(result.attempts!.map(attempt => [attempt.status, attempt.error])).toEqual([[TestStatus.PASSED, undefined]]);
+    });
+  });
+});
+
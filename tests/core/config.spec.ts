@@ -0,0 +1,344 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigManager } from '../../src/core/ConfigManager';
+import { ConfigError, coerceEnvValue, resolveSchemaPath } from '../../src/core/ConfigSchema';
+import { loadConfigFromFile } from '../../src/config';
+
+test.describe('ConfigManager', () => {
+  let cwd: string;
+  let dir: string;
+  let env: NodeJS.ProcessEnv;
+
+  test.beforeEach(() => {
+    cwd = process.cwd();
+    env = { ...process.env };
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+    fs.mkdirSync(path.join(dir, 'config'));
+    process.chdir(dir);
+  });
+
+  test.afterEach(() => {
+    process.chdir(cwd);
+    process.env = env;
+    fs.rmSync(dir, { recursive: true, force: true });
+    ConfigManager.getInstance().reset();
+    ConfigManager.getInstance().reload();
+  });
+
+  /**
+   * Записывает файл конфигурации во временный проект
+   */
+  function writeConfig(file: string, content: unknown): void {
+    fs.writeFileSync(path.join(dir, 'config', file), typeof content === 'string' ? content : JSON.stringify(content));
+  }
+
+  function loadError(): ConfigError {
+    try {
+      ConfigManager.getInstance().reload();
+    } catch (error) {
+      return error as ConfigError;
+    }
+    throw new Error('Configuration loaded without errors');
+  }
+
+  test('должен принимать собственные ключи проекта', () => {
+    writeConfig('base.json', { api: { url: 'https://api.example.com' }, features: { search: true } });
+
+    const config = ConfigManager.getInstance();
+    config.reload();
+
+    expect(config.getConfig<string>('api.url')).toBe('https://api.example.com');
+    expect(config.getConfig<boolean>('features.search')).toBe(true);
+  });
+
+  test('должен подсказывать известный ключ для опечаток', () => {
+    writeConfig('base.json', { test: { browsername: 'firefox' }, baseURL: 'https://example.com', timeuot: 100 });
+
+    const error = loadError();
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error.issues).toEqual([
+      { source: 'config/base.json', path: 'test.browsername', message: "is not a known key (did you mean 'browserName'?)" },
+      { source: 'config/base.json', path: 'baseURL', message: "is not a known key (did you mean 'baseUrl'?)" },
+      { source: 'config/base.json', path: 'timeuot', message: "is not a known key (did you mean 'timeout'?)" }
+    ]);
+  });
+
+  test('не должен переносить посторонние переменные TEST_* в конфигурацию', () => {
+    writeConfig('base.json', { features: { search: true } });
+    process.env.TEST_WORKER_INDEX = '3';
+    process.env.TEST_FEATURES__SEARCH = 'false';
+    process.env.TEST_TIMEOUT = '5000';
+
+    const config = ConfigManager.getInstance();
+    config.reload();
+
+    expect(config.getConfig()).not.toHaveProperty('worker_index');
+    expect(config.getConfig<string>('features.search')).toBe('false');
+    expect(config.get('timeout')).toBe(5000);
+  });
+
+  test('должен применять значения файла из loadConfigFromFile и сообщать об ошибках чтения', async () => {
+    writeConfig('ci.json', { timeout: 45000 });
+    writeConfig('broken.json', '{ "timeout": ');
+
+    await loadConfigFromFile('config/ci.json');
+
+    expect(ConfigManager.getInstance().get('timeout')).toBe(45000);
+    await expect(loadConfigFromFile('config/broken.json')).rejects.toMatchObject({
+      issues: [{ source: 'config/broken.json', path: '', message: expect.stringMatching(/^could not be read: /) }]
+    });
+    await expect(loadConfigFromFile('config/missing.json')).rejects.toBeInstanceOf(ConfigError);
+  });
+
+  test('должен перечитывать изменённый JS-модуль конфигурации при перезагрузке', () => {
+    writeConfig('base.js', "module.exports = { timeout: 1000 };");
+    const config = ConfigManager.getInstance();
+    config.reload();
+    expect(config.get('timeout')).toBe(1000);
+
+    writeConfig('base.js', "module.exports = { timeout: 2000 };");
+    config.reload();
+
+    expect(config.get('timeout')).toBe(2000);
+  });
+
+  test('должен загружать TS-модуль и подставлять значения собственных ключей', () => {
+    writeConfig('base.ts', [
+      "const config: Record<string, unknown> = { api: { url: 'https://api.example.com' }, apiBaseUrl: '${config:api.url}/v1' };",
+      'export default config;'
+    ].join('\n'));
+
+    const config = ConfigManager.getInstance();
+    config.reload();
+
+    expect(config.get('apiBaseUrl')).toBe('https://api.example.com/v1');
+  });
+
+  test('должен компилировать TS-модуль без установленного загрузчика и снимать свой хук после загрузки', () => {
+    writeConfig('base.ts', 'const timeout: number = 3000;\nexport default { timeout };');
+    const loader = require.extensions['.ts'];
+    delete require.extensions['.ts'];
+
+    try {
+      const config = ConfigManager.getInstance();
+      config.reload();
+
+      expect(config.get('timeout')).toBe(3000);
+      expect(require.extensions['.ts']).toBeUndefined();
+    } finally {
+      if (loader) {
+        require.extensions['.ts'] = loader;
+      }
+    }
+  });
+
+  test('должен накладывать слои по порядку и сообщать источник каждого значения', () => {
+    const config = ConfigManager.getInstance();
+    writeConfig('base.json', { timeout: 1000, retries: 1, slowMo: 5, viewport: { width: 800, height: 600 } });
+    writeConfig(`${config.getEnvironmentName()}.json`, { retries: 2, slowMo: 10 });
+    fs.writeFileSync(path.join(dir, '.env'), 'SLOW_MO=20\nBASE_URL=https://dotenv.example.com\n');
+    process.env.BASE_URL = 'https://process.example.com';
+
+    config.reload();
+    config.update({ slowMo: 30 }, 'test override');
+
+    expect(config.getConfig()).toMatchObject({
+      timeout: 1000,
+      retries: 2,
+      slowMo: 30,
+      headless: true,
+      baseUrl: 'https://process.example.com'
+    });
+    expect(config.getSource('timeout')).toEqual({ layer: 'base', origin: path.join(dir, 'config', 'base.json') });
+    expect(config.getSource('retries')).toEqual({
+      layer: 'environment',
+      origin: path.join(dir, 'config', `${config.getEnvironmentName()}.json`)
+    });
+    expect(config.getSource('baseUrl')).toEqual({ layer: 'env', origin: 'BASE_URL' });
+    expect(config.getSource('slowMo')).toEqual({ layer: 'override', origin: 'test override' });
+    expect(config.getSource('headless')).toEqual({ layer: 'defaults', origin: 'defaults' });
+    expect(config.getSource('viewport.width')!.layer).toBe('base');
+    expect(config.getSource('unknown.key')).toBeUndefined();
+
+    config.reset();
+
+    expect(config.get('slowMo')).toBe(20);
+    expect(config.getSource('slowMo')).toEqual({ layer: 'env', origin: 'SLOW_MO (.env)' });
+  });
+
+  test('должен сообщать источник объекта, заданного целиком, для его вложенных ключей', () => {
+    writeConfig('base.json', { api: { headers: { 'x-tenant': 'a' } } });
+    process.env.TEST_API__HEADERS = '{"x-tenant":"b","x-trace":"1"}';
+
+    const config = ConfigManager.getInstance();
+    config.reload();
+
+    expect(config.getConfig<Record<string, string>>('api.headers')).toEqual({ 'x-tenant': 'b', 'x-trace': '1' });
+    expect(config.getSource('api.headers.x-tenant')).toEqual({ layer: 'env', origin: 'TEST_API__HEADERS' });
+    expect(config.getSources()).toMatchObject({ 'api.headers.x-trace': { layer: 'env', origin: 'TEST_API__HEADERS' } });
+  });
+
+  test('должен отклонять некорректное переопределение и сохранять прежнее значение', () => {
+    const config = ConfigManager.getInstance();
+    config.reload();
+    config.update({ timeout: 1500 });
+
+    expect(() => config.update({ timeout: -1 })).toThrow(ConfigError);
+    expect(config.get('timeout')).toBe(1500);
+    expect(config.getSource('timeout')!.layer).toBe('override');
+  });
+
+  test('должен объединять окружение с родителями по extends', () => {
+    const config = ConfigManager.getInstance();
+    const current = config.getEnvironmentName();
+    writeConfig('environments.json', [
+      { name: 'base', baseUrl: 'https://base.example.com', apiUrl: 'https://api.example.com', credentials: { user: 'admin', password: 'secret' } },
+      { name: 'shared', extends: 'base', apiUrl: 'https://api.shared.example.com' },
+      { name: current, extends: 'shared', credentials: { user: 'tester' } }
+    ]);
+
+    config.reload();
+
+    expect(config.getCurrentEnvironment()).toEqual({
+      name: current,
+      baseUrl: 'https://base.example.com',
+      apiUrl: 'https://api.shared.example.com',
+      credentials: { user: 'tester', password: 'secret' }
+    });
+    expect(config.getEnvironments().map(environment => environment.name)).toEqual(['base', 'shared', current]);
+  });
+
+  test('должен сообщать о неизвестном родителе и циклическом наследовании', () => {
+    writeConfig('environments.json', [{ name: 'qa', extends: 'missing', baseUrl: 'https://qa', apiUrl: 'https://qa/api' }]);
+    expect(loadError().issues).toEqual([{ source: 'config/environments.json', path: 'qa.extends', message: "refers to unknown environment 'missing'" }]);
+
+    writeConfig('environments.json', [
+      { name: 'a', extends: 'b', baseUrl: 'https://a', apiUrl: 'https://a/api' },
+      { name: 'b', extends: 'a', baseUrl: 'https://b', apiUrl: 'https://b/api' }
+    ]);
+    expect(loadError().issues[0]).toEqual({ source: 'config/environments.json', path: 'a.extends', message: 'has a circular reference: a -> b -> a' });
+  });
+
+  test('должен накладывать выбранные варианты окружения по порядку', () => {
+    const config = ConfigManager.getInstance();
+    const current = config.getEnvironmentName();
+    writeConfig('environments.json', [{
+      name: current,
+      baseUrl: 'https://example.com',
+      apiUrl: 'https://api.example.com',
+      credentials: { user: 'admin' },
+      overlays: {
+        eu: { baseUrl: 'https://eu.example.com', apiUrl: 'https://api.eu.example.com' },
+        'tenant-a': { baseUrl: 'https://a.eu.example.com', credentials: { tenant: 'a' } }
+      }
+    }]);
+    process.env.TEST_OVERLAYS = 'eu, tenant-a';
+
+    config.reload();
+
+    expect(config.getEnvironmentOverlays()).toEqual(['eu', 'tenant-a']);
+    expect(config.getCurrentEnvironment()).toEqual({
+      name: current,
+      baseUrl: 'https://a.eu.example.com',
+      apiUrl: 'https://api.eu.example.com',
+      credentials: { user: 'admin', tenant: 'a' }
+    });
+
+    process.env.TEST_OVERLAYS = 'us';
+    expect(loadError().issues[0]).toEqual({
+      source: 'TEST_OVERLAYS',
+      path: 'overlays',
+      message: `refers to unknown overlay(s) 'us' of environment '${current}'`
+    });
+  });
+
+  test('должен полностью перезагружать конфигурацию при смене окружения', () => {
+    const config = ConfigManager.getInstance();
+    const current = config.getEnvironmentName();
+    writeConfig('environments.json', [
+      { name: current, baseUrl: 'https://example.com', apiUrl: 'https://api.example.com' },
+      { name: 'staging', baseUrl: 'https://staging.example.com', apiUrl: 'https://api.staging.example.com', overlays: { eu: { baseUrl: 'https://eu.staging.example.com' } } }
+    ]);
+    writeConfig('staging.json', { timeout: 4000 });
+    fs.writeFileSync(path.join(dir, '.env.staging'), 'RETRIES=3\n');
+    config.reload();
+
+    try {
+      expect(config.setEnvironment('unknown')).toBe(false);
+      expect(config.setEnvironment('staging', ['eu'])).toBe(true);
+
+      expect(config.getEnvironmentName()).toBe('staging');
+      expect(config.getCurrentEnvironment()!.baseUrl).toBe('https://eu.staging.example.com');
+      expect(config.get('timeout')).toBe(4000);
+      expect(config.get('retries')).toBe(3);
+
+      // The previous environment stays active when the new selection is invalid
+      expect(() => config.setEnvironment(current, ['eu'])).toThrow(ConfigError);
+      expect(config.getEnvironmentName()).toBe('staging');
+    } finally {
+      config.setEnvironment(current);
+    }
+
+    expect(config.get('timeout')).toBe(30000);
+  });
+
+  const coercions: Array<[string, string, unknown]> = [
+    ['TIMEOUT', '5000', 5000],
+    ['TIMEOUT', 'soon', 'soon'],
+    ['HEADLESS', 'FALSE', false],
+    ['HEADLESS', '1', true],
+    ['HEADLESS', 'yes', 'yes'],
+    ['TEST__TAGS', 'smoke, fast', ['smoke', 'fast']],
+    ['TEST__TAGS', '["a,b"]', ['a,b']],
+    ['TEST__TAGS', '', []],
+    ['OVERLAYS', 'eu,tenant', 'eu,tenant'],
+    ['VIEWPORT', '{"width":800,"height":600}', { width: 800, height: 600 }],
+    ['VIEWPORT', '{broken', '{broken'],
+    ['CUSTOM', '{"a":1}', { a: 1 }],
+    ['CUSTOM', '42', '42']
+  ];
+
+  for (const [name, value, expected] of coercions) {
+    test(`должен приводить TEST_${name}=${value} к типу схемы`, () => {
+      expect(coerceEnvValue(value, resolveSchemaPath(name.split('__')).schema)).toEqual(expected);
+    });
+  }
+
+  test('должен сопоставлять сегменты переменной с ключами схемы', () => {
+    expect(resolveSchemaPath(['TEST', 'BROWSER_NAME']).path).toEqual(['test', 'browserName']);
+    expect(resolveSchemaPath(['SLOW_MO']).path).toEqual(['slowMo']);
+    expect(resolveSchemaPath(['API', 'HEADERS', 'X_TENANT']).path).toEqual(['api', 'headers', 'x-tenant']);
+    expect(resolveSchemaPath(['FEATURES', 'NEW_SEARCH']).path).toEqual(['features', 'new_search']);
+  });
+
+  test('должен переносить вложенные переменные TEST_A__B в конфигурацию с типами схемы', () => {
+    writeConfig('base.json', { api: { headers: { 'x-tenant': 'a', accept: 'json' } } });
+    process.env.TEST_TEST__BROWSER_NAME = 'firefox';
+    process.env.TEST_TEST__HEADLESS = '0';
+    process.env.TEST_TEST__RETRIES = '5';
+    process.env.TEST_API__HEADERS = '{"x-tenant":"b"}';
+    process.env.TEST_API__HEADERS__X_TRACE = 'on';
+
+    const config = ConfigManager.getInstance();
+    config.reload();
+
+    expect(config.getTestConfig()).toMatchObject({ browserName: 'firefox', headless: false, retries: 5 });
+    // The JSON value is merged onto the object from the file, and the longer name refines it
+    expect(config.getConfig<Record<string, string>>('api.headers')).toEqual({ 'x-tenant': 'b', accept: 'json', 'x-trace': 'on' });
+    expect(config.getSource('api.headers.x-tenant')).toEqual({ layer: 'env', origin: 'TEST_API__HEADERS' });
+    expect(config.getSource('api.headers.x-trace')).toEqual({ layer: 'env', origin: 'TEST_API__HEADERS__X_TRACE' });
+    expect(config.getSource('api.headers.accept')!.layer).toBe('base');
+  });
+
+  test('должен называть переменную с неприводимым значением', () => {
+    process.env.TEST_TEST__RETRIES = 'many';
+
+    const error = loadError();
+
+    expect(error.issues).toHaveLength(1);
+    expect(error.issues[0]).toMatchObject({ source: 'TEST_TEST__RETRIES', path: 'test.retries' });
+  });
+});
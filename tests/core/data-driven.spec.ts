@@ -0,0 +1,109 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BaseTest } from '../../src/core/BaseTest';
+import { TestClass, createTestTasks, formatTestName, loadParameters } from '../../src/core/DataDriven';
+import { TestStatus } from '../../src/core/constants';
+import { ParameterSource } from '../../src/core/types';
+
+/**
+ * Test class reporting the configuration and parameters it ran with instead of opening a browser
+ */
+function testClass(parameters?: ParameterSource): TestClass {
+  return class LoginTest extends BaseTest {
+    static parameters = parameters;
+
+    async setup(): Promise<void> {
+      // No browser
+    }
+
+    async teardown(): Promise<void> {
+      // No browser
+    }
+
+    async executeTest(): Promise<void> {
+      this.result.metadata = { config: this.config, params: this.params };
+    }
+  };
+}
+
+test.describe('DataDriven', () => {
+  test('должен формировать имя теста из параметров', () => {
+    const params = { browser: 'firefox', viewport: { width: 1280, height: 720 }, user: { role: 'admin' }, retries: 2 };
+
+    expect(formatTestName('LoginTest', params)).toBe('LoginTest[browser=firefox, viewport=1280x720, user={"role":"admin"}, retries=2]');
+    expect(formatTestName('LoginTest', params, ['user', 'missing', 'browser'])).toBe('LoginTest[user={"role":"admin"}, browser=firefox]');
+    expect(formatTestName('LoginTest', {})).toBe('LoginTest');
+  });
+
+  test('должен раскрывать матрицу браузеров, размеров окна и параметров', async () => {
+    const rows = await loadParameters({
+      type: 'matrix',
+      browsers: ['chromium', 'webkit'],
+      viewports: [{ width: 375, height: 667 }],
+      parameters: { user: ['admin', 'guest'] }
+    });
+
+    expect(rows.map(row => formatTestName('T', row))).toEqual([
+      'T[browser=chromium, viewport=375x667, user=admin]',
+      'T[browser=chromium, viewport=375x667, user=guest]',
+      'T[browser=webkit, viewport=375x667, user=admin]',
+      'T[browser=webkit, viewport=375x667, user=guest]'
+    ]);
+  });
+
+  test('должен читать строки параметров из CSV и JSON', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'data-driven-'));
+    const cwd = process.cwd();
+    try {
+      fs.writeFileSync(path.join(dir, 'users.csv'), 'user,password\nadmin,1\nguest,2\n');
+      fs.writeFileSync(path.join(dir, 'users.json'), JSON.stringify({ rows: [{ user: 'admin' }] }));
+      process.chdir(dir);
+
+      expect(await loadParameters({ type: 'file', path: 'users.csv' })).toEqual([
+        { user: 'admin', password: '1' },
+        { user: 'guest', password: '2' }
+      ]);
+      expect(await loadParameters({ type: 'file', path: 'users.json' })).toEqual([{ user: 'admin' }]);
+    } finally {
+      process.chdir(cwd);
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('должен создавать задачу на каждую строку с браузером и размером окна из параметров', async () => {
+    const tasks = await createTestTasks(
+      testClass({ type: 'table', rows: [{ browser: 'firefox', viewport: '800x600', user: 'admin' }, { browser: 'opera', user: 'guest' }], nameKeys: ['user'] }),
+      { tags: ['smoke'] }
+    );
+
+    expect(tasks.map(task => [task.id, task.name, task.tags])).toEqual([
+      ['LoginTest[user=admin]', 'LoginTest[user=admin]', ['smoke']],
+      ['LoginTest[user=guest]', 'LoginTest[user=guest]', ['smoke']]
+    ]);
+
+    const [first, second] = await Promise.all(tasks.map(task => task.testFn()));
+    expect(first).toMatchObject({ name: 'LoginTest[user=admin]', status: TestStatus.PASSED });
+    expect(first.metadata).toMatchObject({
+      config: { browserName: 'firefox', viewport: { width: 800, height: 600 }, tags: ['smoke'] },
+      params: { browser: 'firefox', viewport: '800x600', user: 'admin' }
+    });
+    // Unknown browsers are only parameters, the configured browser is used
+    expect(second.metadata).toMatchObject({ config: { browserName: 'chromium', viewport: { width: 1280, height: 720 } } });
+  });
+
+  test('должен создавать одну задачу для класса без параметров', async () => {
+    const tasks = await createTestTasks(testClass());
+
+    expect(tasks.map(task => task.name)).toEqual(['LoginTest']);
+  });
+
+  test('должен отклонять строки с одинаковыми именами тестов', async () => {
+    const source: ParameterSource = { type: 'table', rows: [{ user: 'admin', locale: 'en' }, { user: 'admin', locale: 'de' }], nameKeys: ['user'] };
+
+    await expect(createTestTasks(testClass(source))).rejects.toThrow(
+      'Duplicate data-driven test name "LoginTest[user=admin]", add distinguishing parameters or nameKeys'
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { test, expect } from '@playwright/test';
+import path from 'path';
+import { clusterFailures, getErrorSignature, normalizeErrorText } from '../../src/core/FailureClusters';
+import { TestStatus } from '../../src/core/constants';
+import { TestResult } from '../../src/core/types';
+import { testResult } from '../helpers/results';
+
+const FRAMEWORK_FILE = path.resolve(__dirname, '../../src/core/timeout.ts');
+
+function error(message: string, frames: string[]): Error {
+  return Object.assign(new Error(message), { stack: [`Error: ${message}`, ...frames.map(frame => `    at ${frame}`)].join('\n') });
+}
+
+function failure(name: string, failureError: Error): TestResult {
+  return testResult(name, TestStatus.FAILED, { error: failureError });
+}
+
+test.describe('FailureClusters', () => {
+  const cases: Array<[string, string, string]> = [
+    ['числа', 'Expected 3 items, got 12.5', 'Expected <n> items, got <n>'],
+    ['числа в идентификаторах сохраняются', 'Element #item_42 and h1 not found', 'Element #item_42 and h1 not found'],
+    ['UUID', 'Order 3f2b8c1e-9a4d-4e2f-8b6a-0c1d2e3f4a5b not found', 'Order <id> not found'],
+    ['шестнадцатеричные идентификаторы', 'Session a1b2c3d4e5f6 expired', 'Session <id> expired'],
+    ['слова из шестнадцатеричных букв сохраняются', 'Cannot read property deadbeefcafe', 'Cannot read property deadbeefcafe'],
+    ['URL', 'GET https://api.example.com/users/15?page=2 failed', 'GET <url> failed'],
+    ['URL в кавычках', "navigating to 'http://localhost:3000/login'", "navigating to '<url>'"],
+    ['время ISO', 'Created at 2024-01-31T12:30:45.123Z', 'Created at <timestamp>'],
+    ['время со смещением', 'Expired 2024-01-31 12:30+03:00', 'Expired <timestamp>'],
+    ['ANSI-коды и пробелы', '\u001B[31mTimeout\u001B[0m   exceeded\n  after 5000ms', 'Timeout exceeded after <n>ms']
+  ];
+
+  for (const [title, text, expected] of cases) {
+    test(`должен нормализовать: ${title}`, () => {
+      expect(normalizeErrorText(text)).toBe(expected);
+    });
+  }
+
+  test('должен оставлять в сигнатуре только кадры фреймворка без путей и номеров строк', () => {
+    const signature = getErrorSignature(error('Timeout 30000ms exceeded', [
+      'CheckoutTest.run (/work/tests/CheckoutTest.ts:12:5)',
+      `withTimeout (${FRAMEWORK_FILE}:20:11)`,
+      'processTicksAndRejections (node:internal/process/task_queues:95:5)',
+      `Timeout._onTimeout (${FRAMEWORK_FILE}:31:7)`,
+      'Page.click (/work/node_modules/playwright-core/lib/client/page.js:10:3)'
+    ]));
+
+    expect(signature).toEqual({
+      errorName: 'Error',
+      message: 'Timeout <n>ms exceeded',
+      frames: ['at withTimeout (timeout.ts)', 'at Timeout._onTimeout (timeout.ts)']
+    });
+  });
+
+  test('должен объединять одинаковые падения разных тестовых классов в одну группу', () => {
+    const results = [
+      ...Array.from({ length: 3 }, (_, index) => failure(`checkout ${index}`, error(`Timeout ${30000 + index}ms exceeded`, [
+        `Test${index}.run (/work/tests/Test${index}.ts:${index + 1}:5)`,
+        `withTimeout (${FRAMEWORK_FILE}:20:11)`
+      ]))),
+      failure('login', error('Invalid password', ['LoginTest.run (/work/tests/LoginTest.ts:3:5)'])),
+      { ...failure('passes', error('ignored', [])), status: TestStatus.PASSED }
+    ];
+
+    const clusters = clusterFailures(results);
+
+    expect(clusters.map(cluster => cluster.count)).toEqual([3, 1]);
+    expect(clusters[0].tests).toEqual(['checkout 0', 'checkout 1', 'checkout 2']);
+    expect(clusters[0].example.message).toBe('Timeout 30000ms exceeded');
+    expect(clusters[0].id).toMatch(/^[0-9a-f]{8}$/);
+    expect(clusters[1].frames).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { test, expect } from '@playwright/test';
+import { HookManager, afterEach, beforeAll, beforeEach } from '../../src/core/hooks';
+import { TestStatus } from '../../src/core/constants';
+import { TestResult } from '../../src/core/types';
+
+test.describe('HookManager', () => {
+  const hooks = HookManager.getInstance();
+
+  test.afterEach(() => {
+    hooks.clearHooks();
+  });
+
+  test('должен запускать хуки по убыванию приоритета, а равные — в порядке регистрации', async () => {
+    const calls: string[] = [];
+    beforeAll(() => Promise.resolve(void calls.push('first')));
+    beforeAll(() => Promise.resolve(void calls.push('urgent')), { priority: 10 });
+    beforeAll(() => Promise.resolve(void calls.push('second')));
+    beforeAll(() => Promise.resolve(void calls.push('late')), { priority: -1 });
+
+    expect(await hooks.runBeforeAll()).toEqual([]);
+    expect(calls).toEqual(['urgent', 'first', 'second', 'late']);
+  });
+
+  test('должен запускать хуки с тегами только для тестов с одним из этих тегов', async () => {
+    const calls: string[] = [];
+    beforeEach(() => Promise.resolve(void calls.push('all')));
+    beforeEach(() => Promise.resolve(void calls.push('smoke')), { tags: ['@Smoke'] });
+
+    await hooks.runBeforeEach({ tags: ['smoke'] });
+    await hooks.runBeforeEach({ tags: ['slow'] });
+
+    expect(calls).toEqual(['all', 'smoke', 'all']);
+  });
+
+  test('должен останавливать before-хуки на первой ошибке, а after-хуки выполнять все', async () => {
+    const calls: string[] = [];
+    beforeAll(() => Promise.reject(new Error('db down')), { name: 'seed' });
+    beforeAll(() => Promise.resolve(void calls.push('before')));
+    afterEach(() => Promise.reject(new Error('cleanup failed')), { name: 'cleanup' });
+    afterEach((result: TestResult) => Promise.resolve(void calls.push(`after:${result.name}`)));
+
+    const beforeFailures = await hooks.runBeforeAll();
+    const now = new Date();
+    const afterFailures = await hooks.runAfterEach({ name: 'login', status: TestStatus.PASSED, startTime: now, endTime: now, duration: 0 });
+
+    expect(beforeFailures.map(failure => [failure.hook, failure.name, failure.error.message])).toEqual([['beforeAll', 'seed', 'db down']]);
+    expect(afterFailures.map(failure => failure.name)).toEqual(['cleanup']);
+    expect(calls).toEqual(['after:login']);
+  });
+
+  test('должен прерывать хук по таймауту и сообщать об этом как об ошибке', async () => {
+    beforeAll(() => new Promise<void>(resolve => setTimeout(resolve, 1000)), { name: 'slow', timeout: 20 });
+
+    const [failure] = await hooks.runBeforeAll();
+
+    expect(failure.name).toBe('slow');
+    expect(failure.error.message).toBe('beforeAll hook "slow" timed out after 20ms');
+  });
+
+  test('должен удалять хук через возвращённый дескриптор', async () => {
+    const calls: string[] = [];
+    const handle = beforeAll(() => Promise.resolve(void calls.push('removed')));
+    beforeAll(function kept() {
+      calls.push('kept');
+      return Promise.resolve();
+    });
+
+    handle.unregister();
+    handle.unregister();
+
+    expect(await hooks.runBeforeAll()).toEqual([]);
+    expect(calls).toEqual(['kept']);
+  });
+
+  test('должен называть хук по имени функции, если имя не задано', async () => {
+    beforeAll(function connectDatabase() {
+      return Promise.reject(new Error('refused'));
+    });
+
+    const [failure] = await hooks.runBeforeAll();
+
+    expect(failure.name).toBe('connectDatabase');
+  });
+});
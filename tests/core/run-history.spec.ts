@@ -0,0 +1,132 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RunHistory } from '../../src/core/RunHistory';
+import { Quarantine } from '../../src/core/Quarantine';
+import { TestStatus } from '../../src/core/constants';
+import { TestResult } from '../../src/core/types';
+import { testResult } from '../helpers/results';
+
+test.describe('RunHistory', () => {
+  let dir: string;
+  let history: RunHistory;
+
+  // Stores runs one minute apart, oldest first
+  async function saveRuns(runs: TestResult[][]): Promise<void> {
+    for (const [index, results] of runs.entries()) {
+      await history.saveRun(results, new Date(Date.UTC(2024, 0, 1, 0, index)));
+    }
+  }
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+    history = new RunHistory({ dir, runs: 10 });
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('должен восстанавливать даты и ошибки вложенных попыток и шагов', async () => {
+    const step = {
+      title: 'open page',
+      status: TestStatus.FAILED,
+      startTime: new Date(1000),
+      endTime: new Date(1050),
+      duration: 50,
+      error: new Error('not visible'),
+      steps: [{ title: 'click', status: TestStatus.PASSED, startTime: new Date(1010), endTime: new Date(1020), duration: 10, steps: [] }]
+    };
+    await history.saveRun([testResult('login', TestStatus.FLAKY, {
+      steps: [step],
+      attempts: [{ retry: 0, status: TestStatus.FAILED, duration: 50, startTime: new Date(1000), endTime: new Date(1050), error: new Error('boom'), attachments: [], steps: [step] }],
+      hookFailures: [{ hook: 'afterEach', name: 'cleanup', error: new TypeError('gone') }]
+    })]);
+
+    const [run] = await history.loadRuns();
+    const [loaded] = run.results;
+
+    expect(run.startTime).toBeInstanceOf(Date);
+    expect(loaded.startTime).toBeInstanceOf(Date);
+    expect(loaded.attempts![0].startTime).toEqual(new Date(1000));
+    expect(loaded.attempts![0].error).toBeInstanceOf(Error);
+    expect(loaded.attempts![0].error!.message).toBe('boom');
+    expect(loaded.attempts![0].steps![0].endTime).toEqual(new Date(1050));
+    expect(loaded.steps![0].error).toBeInstanceOf(Error);
+    expect(loaded.steps![0].steps[0].startTime).toEqual(new Date(1010));
+    expect(loaded.hookFailures![0].error.name).toBe('TypeError');
+  });
+
+  test('должен пропускать повреждённые файлы и возвращать последние запуски по порядку', async () => {
+    await saveRuns([[testResult('a', TestStatus.PASSED)], [testResult('a', TestStatus.FAILED)], [testResult('a', TestStatus.PASSED)]]);
+    fs.writeFileSync(path.join(dir, 'run-9999-broken.json'), '{', 'utf8');
+
+    const runs = await history.loadRuns(3);
+
+    expect(runs).toHaveLength(2);
+    expect(runs.map(run => run.results[0].status)).toEqual([TestStatus.FAILED, TestStatus.PASSED]);
+  });
+
+  test('должен считать долю успехов, частоту смены исхода и тренд длительности', async () => {
+    await saveRuns([
+      [testResult('stable', TestStatus.PASSED, { duration: 100 }), testResult('toggling', TestStatus.PASSED), testResult('slower', TestStatus.PASSED, { duration: 100 })],
+      [testResult('stable', TestStatus.PASSED, { duration: 100 }), testResult('toggling', TestStatus.FAILED), testResult('slower', TestStatus.PASSED, { duration: 200 })],
+      [testResult('stable', TestStatus.SKIPPED, { duration: 100 }), testResult('toggling', TestStatus.PASSED), testResult('slower', TestStatus.PASSED, { duration: 300 })],
+      [testResult('stable', TestStatus.PASSED, { duration: 100 }), testResult('toggling', TestStatus.TIMED_OUT), testResult('slower', TestStatus.PASSED, { duration: 400 })]
+    ]);
+
+    const stats = new Map((await history.getStats()).map(entry => [entry.name, entry]));
+
+    // Skipped runs are not counted
+    expect(stats.get('stable')).toMatchObject({ runs: 3, passRate: 1, flipRate: 0, durationTrend: 0, isFlaky: false });
+    expect(stats.get('toggling')).toMatchObject({ runs: 4, passed: 2, failed: 2, passRate: 0.5, flipRate: 1, isFlaky: true });
+    expect(stats.get('toggling')!.lastStatus).toBe(TestStatus.TIMED_OUT);
+    expect(stats.get('slower')).toMatchObject({ averageDuration: 250, durationTrend: 100, durations: [100, 200, 300, 400] });
+  });
+
+  test('должен считать нестабильными тесты, прошедшие с повтора или часто меняющие исход', async () => {
+    history = new RunHistory({ dir, runs: 10, flipThreshold: 0.5 });
+    await saveRuns([
+      [testResult('retried', TestStatus.PASSED), testResult('rare', TestStatus.PASSED), testResult('often', TestStatus.PASSED)],
+      [testResult('retried', TestStatus.FLAKY), testResult('rare', TestStatus.PASSED), testResult('often', TestStatus.FAILED)],
+      [testResult('retried', TestStatus.PASSED), testResult('rare', TestStatus.PASSED), testResult('often', TestStatus.PASSED)],
+      [testResult('retried', TestStatus.PASSED), testResult('rare', TestStatus.FAILED), testResult('often', TestStatus.PASSED)]
+    ]);
+
+    const flaky = await history.getFlakyTests();
+
+    // 'rare' flipped once in three transitions, below the threshold
+    expect(flaky.map(stats => stats.name)).toEqual(['often', 'retried']);
+    expect(flaky[0].flipRate).toBeCloseTo(2 / 3);
+  });
+
+  test('должен анализировать только заданное число последних запусков', async () => {
+    await saveRuns([[testResult('a', TestStatus.FAILED)], [testResult('a', TestStatus.PASSED)], [testResult('a', TestStatus.PASSED)]]);
+
+    const [stats] = await history.getStats(2);
+
+    expect(stats).toMatchObject({ runs: 2, passRate: 1, flipRate: 0 });
+  });
+});
+
+test.describe('Quarantine', () => {
+  test('должен сопоставлять точные имена и шаблоны со звёздочкой', () => {
+    const quarantine = new Quarantine(['Checkout › pays by card', 'Search › *', '*(flaky)']);
+
+    expect(quarantine.isQuarantined('Checkout › pays by card')).toBe(true);
+    expect(quarantine.isQuarantined('Checkout › pays by card twice')).toBe(false);
+    expect(quarantine.isQuarantined('Search › finds [items] (1+2)')).toBe(true);
+    expect(quarantine.isQuarantined('Login works (flaky)')).toBe(true);
+    expect(quarantine.isQuarantined('Login works')).toBe(false);
+    expect(quarantine.getEntries()).toHaveLength(3);
+  });
+
+  test('должен экранировать спецсимволы регулярных выражений в записях', () => {
+    const quarantine = new Quarantine(['loads user (id=1).json']);
+
+    expect(quarantine.isQuarantined('loads user (id=1).json')).toBe(true);
+    expect(quarantine.isQuarantined('loads user (id=1)xjson')).toBe(false);
+    expect(new Quarantine([]).isEmpty()).toBe(true);
+  });
+});
@@ -0,0 +1,166 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigManager } from '../../src/core/ConfigManager';
+import {
+  EnvSecretProvider,
+  FileSecretProvider,
+  SecretError,
+  decryptSecrets,
+  encryptSecrets
+} from '../../src/core/Secrets';
+import { SecretMasker } from '../../src/utils/SecretMasker';
+
+test.describe('Secrets', () => {
+  test('должен расшифровывать зашифрованные секреты тем же ключом', () => {
+    const secrets = { password: 'p@ss:word', token: 'äöü-🔑' };
+    const encrypted = encryptSecrets(secrets, 'key-1');
+
+    expect(encrypted).toMatch(/^v1:[^:]+:[^:]+:[^:]+:[^:]+$/);
+    expect(encrypted).not.toContain('p@ss');
+    // A fresh salt and IV every time
+    expect(encryptSecrets(secrets, 'key-1')).not.toBe(encrypted);
+    expect(decryptSecrets(`${encrypted}\n`, 'key-1')).toEqual(secrets);
+  });
+
+  test('должен отклонять неверный ключ, повреждённый файл и чужой формат', () => {
+    const encrypted = encryptSecrets({ password: 'secret' }, 'key-1');
+    const parts = encrypted.split(':');
+    parts[4] = Buffer.from('tampered').toString('base64');
+
+    expect(() => decryptSecrets(encrypted, 'key-2')).toThrow('wrong key or damaged file');
+    expect(() => decryptSecrets(parts.join(':'), 'key-1')).toThrow('wrong key or damaged file');
+    expect(() => decryptSecrets('{"password":"secret"}', 'key-1')).toThrow('unsupported secrets file format');
+  });
+
+  test('должен читать секреты из переменных окружения', () => {
+    const provider = new EnvSecretProvider(name => ({ ADMIN_PASSWORD: 'secret', EMPTY: '' })[name]);
+
+    expect(provider.resolve('ADMIN_PASSWORD')).toBe('secret');
+    expect(() => provider.resolve('EMPTY')).toThrow(SecretError);
+    expect(() => provider.resolve('MISSING')).toThrow('Environment variable MISSING is not set (secret://env/MISSING)');
+  });
+
+  test.describe('FileSecretProvider', () => {
+    let cwd: string;
+    let dir: string;
+
+    test.beforeEach(() => {
+      cwd = process.cwd();
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'secrets-'));
+      process.chdir(dir);
+      fs.writeFileSync(path.join(dir, '.secrets.enc'), encryptSecrets({ password: 'secret' }, 'key-1'));
+    });
+
+    test.afterEach(() => {
+      process.chdir(cwd);
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('должен читать секрет из зашифрованного файла', () => {
+      expect(new FileSecretProvider(() => 'key-1').resolve('.secrets.enc#password')).toBe('secret');
+    });
+
+    test('должен объяснять, почему секрет не найден', () => {
+      const provider = new FileSecretProvider(() => 'key-1');
+
+      expect(() => provider.resolve('.secrets.enc')).toThrow('File secret references must look like secret://file/<path>#<key>');
+      expect(() => provider.resolve('.secrets.enc#token')).toThrow("Secret 'token' is not defined in .secrets.enc");
+      expect(() => provider.resolve('missing.enc#password')).toThrow(`Secrets file ${path.join(dir, 'missing.enc')} does not exist`);
+      expect(() => new FileSecretProvider(() => undefined).resolve('.secrets.enc#password'))
+        .toThrow('Environment variable SECRETS_KEY with the secrets key is not set');
+      expect(() => new FileSecretProvider(() => 'key-2').resolve('.secrets.enc#password')).toThrow('wrong key or damaged file');
+    });
+  });
+
+  test.describe('ConfigManager', () => {
+    let cwd: string;
+    let dir: string;
+    let env: NodeJS.ProcessEnv;
+
+    test.beforeEach(() => {
+      cwd = process.cwd();
+      env = { ...process.env };
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'secrets-'));
+      fs.mkdirSync(path.join(dir, 'config'));
+      process.chdir(dir);
+    });
+
+    test.afterEach(() => {
+      process.chdir(cwd);
+      process.env = env;
+      fs.rmSync(dir, { recursive: true, force: true });
+      SecretMasker.getInstance().clear();
+      ConfigManager.getInstance().reload();
+    });
+
+    test('должен разрешать ссылки на секреты в учётных данных при обращении и маскировать их', () => {
+      const config = ConfigManager.getInstance();
+      fs.writeFileSync(path.join(dir, 'config', 'environments.json'), JSON.stringify([{
+        name: config.getEnvironmentName(),
+        baseUrl: 'https://example.com',
+        apiUrl: 'https://api.example.com',
+        credentials: { user: 'admin', password: 'secret://env/ADMIN_PASSWORD', token: 'secret://file/.secrets.enc#token' }
+      }]));
+      fs.writeFileSync(path.join(dir, '.secrets.enc'), encryptSecrets({ token: 'tok-123' }, 'key-1'));
+      fs.writeFileSync(path.join(dir, '.env'), 'SECRETS_KEY=key-1\n');
+      process.env.ADMIN_PASSWORD = 'hunter2';
+
+      config.reload();
+      const credentials = config.getCurrentEnvironment()!.credentials!;
+
+      expect(SecretMasker.getInstance().hasSecrets()).toBe(false);
+      expect(credentials.password).toBe('hunter2');
+      expect(credentials.token).toBe('tok-123');
+      expect(credentials.user).toBe('admin');
+      expect(SecretMasker.getInstance().mask('login admin/hunter2 with tok-123')).toBe('login admin/****** with ******');
+    });
+
+    test('должен использовать зарегистрированный поставщик и сообщать о неизвестном', () => {
+      const config = ConfigManager.getInstance();
+      config.reload();
+      config.registerSecretProvider({ name: 'vault', resolve: reference => `value-of-${reference}` });
+
+      expect(config.resolveSecret('plain value')).toBe('plain value');
+      expect(config.resolveSecret('secret://vault/db/password')).toBe('value-of-db/password');
+      expect(() => config.resolveSecret('secret://aws/db')).toThrow("No secret provider registered for 'aws' (secret://aws/db)");
+    });
+  });
+
+  test.describe('SecretMasker', () => {
+    const masker = SecretMasker.getInstance();
+
+    test.afterEach(() => {
+      masker.clear();
+    });
+
+    test('должен маскировать длинные секреты целиком и пропускать слишком короткие', () => {
+      masker.register('ab');
+      masker.register('pass');
+      masker.register('password123');
+
+      expect(masker.mask('ab password123 pass')).toBe('ab ****** ******');
+    });
+
+    test('должен копировать значения с замаскированным текстом, не изменяя оригинал', () => {
+      masker.register('hunter2');
+      const error = Object.assign(new Error('login hunter2 failed'), { details: { body: 'pwd=hunter2' } });
+      const value = { name: 'login', error, steps: [{ title: 'type hunter2' }], when: new Date(0), count: 1 };
+      const self: Record<string, unknown> = { secret: 'hunter2' };
+      self.self = self;
+
+      const masked = masker.maskValue(value);
+      const maskedSelf = masker.maskValue(self);
+
+      expect(masked.error).toBeInstanceOf(Error);
+      expect(masked.error.message).toBe('login ****** failed');
+      expect(masked.error.stack).not.toContain('hunter2');
+      expect((masked.error as Error & { details: { body: string } }).details.body).toBe('pwd=******');
+      expect(masked.steps[0].title).toBe('type ******');
+      expect(masked.when).toBe(value.when);
+      expect(value.error.message).toBe('login hunter2 failed');
+      expect(maskedSelf.self).toBe(maskedSelf);
+    });
+  });
+});
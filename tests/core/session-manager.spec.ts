@@ -0,0 +1,158 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Browser, Page } from 'playwright';
+import { LoginContext, SessionManager } from '../../src/core/SessionManager';
+import { ConfigManager } from '../../src/core/ConfigManager';
+import { DEFAULT_SESSION_DIR, DEFAULT_SESSION_MAX_AGE } from '../../src/core/constants';
+
+const ENVIRONMENTS = [
+  { name: 'dev', baseUrl: 'https://dev.example.com', apiUrl: 'https://api.dev.example.com', credentials: { user: 'dev-admin' } },
+  { name: 'staging', baseUrl: 'https://staging.example.com', apiUrl: 'https://api.staging.example.com', credentials: { user: 'staging-admin' } }
+];
+
+/**
+ * Browser whose contexts save the given cookies as their storage state
+ */
+function fakeBrowser(cookies: Array<{ name: string; expires: number }> = []): { browser: Browser; baseUrls: Array<string | undefined> } {
+  const baseUrls: Array<string | undefined> = [];
+  const browser = {
+    newContext: ({ baseURL }: { baseURL?: string }) => {
+      baseUrls.push(baseURL);
+      return Promise.resolve({
+        newPage: () => Promise.resolve({} as Page),
+        storageState: ({ path: file }: { path: string }) => Promise.resolve(fs.writeFileSync(file, JSON.stringify({ cookies, origins: [] }))),
+        close: () => Promise.resolve()
+      });
+    }
+  } as unknown as Browser;
+  return { browser, baseUrls };
+}
+
+test.describe('SessionManager', () => {
+  const sessions = SessionManager.getInstance();
+  const config = ConfigManager.getInstance();
+  const cwd = process.cwd();
+  let dir: string;
+  let logins: LoginContext[];
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+    fs.mkdirSync(path.join(dir, 'config'));
+    fs.writeFileSync(path.join(dir, 'config', 'environments.json'), JSON.stringify(ENVIRONMENTS));
+    process.chdir(dir);
+    config.reload();
+    config.setEnvironment('dev');
+
+    logins = [];
+    sessions.registerLoginFlow(async (_page, context) => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      logins.push(context);
+    });
+  });
+
+  test.afterEach(() => {
+    config.setEnvironment('dev');
+    sessions.configure({ storageDir: DEFAULT_SESSION_DIR, maxAge: DEFAULT_SESSION_MAX_AGE });
+    process.chdir(cwd);
+    config.reload();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('должен входить один раз и переиспользовать сохранённую сессию', async () => {
+    const { browser, baseUrls } = fakeBrowser();
+
+    const first = await sessions.getStorageState('admin', browser);
+    const second = await sessions.getStorageState('admin', browser);
+
+    expect(first).toBe(path.join(fs.realpathSync(dir), '.auth', 'dev', 'admin.json'));
+    expect(second).toBe(first);
+    expect(logins.map(login => [login.role, login.credentials.user])).toEqual([['admin', 'dev-admin']]);
+    expect(baseUrls).toEqual(['https://dev.example.com']);
+  });
+
+  test('должен выполнять один вход для одновременных запросов одной роли', async () => {
+    const { browser } = fakeBrowser();
+
+    const paths = await Promise.all([
+      sessions.getStorageState('admin', browser),
+      sessions.getStorageState('admin', browser),
+      sessions.getStorageState('viewer', browser)
+    ]);
+
+    expect(paths[0]).toBe(paths[1]);
+    expect(paths[2]).toMatch(/viewer\.json$/);
+    expect(logins.map(login => login.role).sort()).toEqual(['admin', 'viewer']);
+  });
+
+  test('должен входить заново, когда у сохранённой сессии истекли cookies', async () => {
+    const { browser } = fakeBrowser([{ name: 'sid', expires: Date.now() / 1000 - 60 }]);
+
+    await sessions.getStorageState('admin', browser);
+    await sessions.getStorageState('admin', browser);
+
+    expect(logins).toHaveLength(2);
+  });
+
+  test('не должен считать истёкшими сессионные cookies и cookies с будущим сроком', async () => {
+    const { browser } = fakeBrowser([{ name: 'session', expires: -1 }, { name: 'sid', expires: Date.now() / 1000 + 3600 }]);
+
+    await sessions.getStorageState('admin', browser);
+    await sessions.getStorageState('admin', browser);
+
+    expect(logins).toHaveLength(1);
+  });
+
+  test('должен входить заново, когда сохранённая сессия старше maxAge', async () => {
+    const { browser } = fakeBrowser();
+    sessions.configure({ maxAge: 60 * 1000 });
+
+    const statePath = await sessions.getStorageState('admin', browser);
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    fs.utimesSync(statePath, hourAgo, hourAgo);
+    await sessions.getStorageState('admin', browser);
+
+    expect(logins).toHaveLength(2);
+  });
+
+  test('должен хранить сессии каждого окружения отдельно', async () => {
+    const { browser, baseUrls } = fakeBrowser();
+
+    const dev = await sessions.getStorageState('admin', browser);
+    config.setEnvironment('staging');
+    const staging = await sessions.getStorageState('admin', browser);
+
+    expect(path.relative(fs.realpathSync(dir), staging)).toBe(path.join('.auth', 'staging', 'admin.json'));
+    expect(staging).not.toBe(dev);
+    expect(logins.map(login => login.credentials.user)).toEqual(['dev-admin', 'staging-admin']);
+    expect(baseUrls).toEqual(['https://dev.example.com', 'https://staging.example.com']);
+  });
+
+  test('должен хранить сессии окружения с оверлеями отдельно от базового окружения', async () => {
+    const { browser, baseUrls } = fakeBrowser();
+    const staging = { ...ENVIRONMENTS[1], overlays: { eu: { baseUrl: 'https://eu.staging.example.com' } } };
+    fs.writeFileSync(path.join(dir, 'config', 'environments.json'), JSON.stringify([ENVIRONMENTS[0], staging]));
+
+    config.setEnvironment('staging', ['eu']);
+    const statePath = await sessions.getStorageState('admin', browser);
+
+    expect(path.relative(fs.realpathSync(dir), statePath)).toBe(path.join('.auth', 'staging+eu', 'admin.json'));
+    expect(baseUrls).toEqual(['https://eu.staging.example.com']);
+  });
+
+  test('должен удалять сохранённые сессии, чтобы следующий запрос вошёл заново', async () => {
+    const { browser } = fakeBrowser();
+    sessions.configure({ storageDir: 'sessions' });
+
+    const statePath = await sessions.getStorageState('admin', browser);
+    sessions.invalidate('admin');
+    expect(fs.existsSync(statePath)).toBe(false);
+
+    await sessions.getStorageState('admin', browser);
+    sessions.invalidate();
+    expect(fs.existsSync(path.join(dir, 'sessions', 'dev'))).toBe(false);
+    expect(logins).toHaveLength(2);
+  });
+
+});
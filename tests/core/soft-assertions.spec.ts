@@ -0,0 +1,111 @@
+import { test, expect } from '@playwright/test';
+import type { Locator } from 'playwright';
+import { SoftAssertionError, SoftAssertions } from '../../src/core/SoftAssertions';
+import { StepRecorder } from '../../src/core/StepRecorder';
+
+function locator(state: { visible?: boolean; text?: string; count?: number }): Locator {
+  return {
+    isVisible: () => Promise.resolve(state.visible ?? true),
+    isHidden: () => Promise.resolve(!(state.visible ?? true)),
+    isEnabled: () => Promise.resolve(true),
+    textContent: () => Promise.resolve(state.text ?? null),
+    count: () => Promise.resolve(state.count ?? 1),
+    toString: () => 'locator(\'#total\')'
+  } as unknown as Locator;
+}
+
+test.describe('SoftAssertions', () => {
+  test('должен собирать все невыполненные проверки и падать с ними в assertAll', async () => {
+    const soft = new SoftAssertions();
+
+    expect(await soft.check(true, 'never reported')).toBe(true);
+    expect(await soft.check(false, 'cart is empty')).toBe(false);
+    expect(await soft.that('total', () => { throw new Error('expected 10, got 12'); })).toBe(false);
+    expect(await soft.that('async total', () => Promise.resolve())).toBe(true);
+    expect(await soft.text(locator({ text: ' 12 ' }), '10')).toBe(false);
+    expect(await soft.count(locator({ count: 2 }), 3)).toBe(false);
+
+    expect(soft.hasFailures()).toBe(true);
+    expect(soft.getFailures().map(failure => failure.message)).toEqual([
+      'cart is empty',
+      'total: expected 10, got 12',
+      'Expected locator(\'#total\') to have text 10, got "12"',
+      'Expected locator(\'#total\') to match 3 element(s), got 2'
+    ]);
+    expect(soft.getFailures()[1].error?.message).toBe('expected 10, got 12');
+    expect(() => soft.assertAll()).toThrow(SoftAssertionError);
+    expect(() => soft.assertAll()).toThrow([
+      '4 soft assertion(s) failed:',
+      '  1) cart is empty',
+      '  2) total: expected 10, got 12',
+      '  3) Expected locator(\'#total\') to have text 10, got "12"',
+      '  4) Expected locator(\'#total\') to match 3 element(s), got 2'
+    ].join('\n'));
+  });
+
+  test('не должен падать в assertAll без невыполненных проверок', async () => {
+    const soft = new SoftAssertions();
+
+    await soft.visible(locator({ visible: true }));
+    await soft.hidden(locator({ visible: false }));
+
+    expect(soft.hasFailures()).toBe(false);
+    expect(() => soft.assertAll()).not.toThrow();
+  });
+
+  test('должен описывать проверки ApiAssertions со статусом ответа и аргументами', async () => {
+    const soft = new SoftAssertions();
+    const hasStatus = (response: { status: number }, status: number): boolean => response.status === status;
+
+    await soft.api(hasStatus, { status: 500 }, 201);
+
+    expect(soft.getFailures()[0].message).toBe('ApiAssertions.hasStatus with 201 failed (response status 500)');
+  });
+
+  test('должен запоминать шаг и снимок экрана каждой невыполненной проверки', async () => {
+    const recorder = new StepRecorder();
+    const soft = new SoftAssertions(index =>
+      index === 2
+        ? Promise.reject(new Error('page closed'))
+        : Promise.resolve({ name: `shot ${index}`, path: `shots/${index}.png`, contentType: 'image/png' })
+    );
+
+    await recorder.record(() =>
+      recorder.step('Checkout', async () => {
+        await recorder.step('Totals', () => soft.check(false, 'wrong total'));
+        await soft.check(false, 'no discount');
+      })
+    );
+
+    const failures = soft.getFailures();
+    expect(failures.map(failure => [failure.stepPath, failure.screenshot?.path])).toEqual([
+      [['Checkout', 'Totals'], 'shots/1.png'],
+      [['Checkout'], undefined]
+    ]);
+    expect(() => soft.assertAll()).toThrow(
+      '  1) wrong total [step: Checkout > Totals] (screenshot: shots/1.png)\n  2) no discount [step: Checkout]'
+    );
+  });
+
+  test('должен добавлять невыполненные проверки к ошибке, остановившей тест', async () => {
+    const soft = new SoftAssertions();
+    await soft.check(false, 'banner missing');
+    const error = new TypeError('Cannot read properties of null');
+
+    const merged = soft.mergeInto(error);
+
+    expect(merged).toBe(error);
+    expect(merged.message).toBe('Cannot read properties of null\n\nAlso 1 soft assertion(s) failed:\n  1) banner missing');
+    expect(merged.stack).toContain('TypeError: Cannot read properties of null\n\nAlso 1 soft assertion(s) failed:\n  1) banner missing\n    at ');
+  });
+
+  test('не должен менять ошибку без невыполненных проверок или саму ошибку мягких проверок', async () => {
+    const soft = new SoftAssertions();
+    const error = new Error('boom');
+    expect(soft.mergeInto(error).message).toBe('boom');
+
+    await soft.check(false, 'banner missing');
+    const aggregated = new SoftAssertionError(soft.getFailures());
+    expect(soft.mergeInto(aggregated).message).toBe('1 soft assertion(s) failed:\n  1) banner missing');
+  });
+});
@@ -0,0 +1,114 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Page } from 'playwright';
+import { StepRecorder, stepScreenshot } from '../../src/core/StepRecorder';
+import { ConfigManager } from '../../src/core/ConfigManager';
+import { TestStatus } from '../../src/core/constants';
+
+test.describe('StepRecorder', () => {
+  test('должен прикладывать снимок страницы к упавшему шагу', async () => {
+    const paths: string[] = [];
+    const page = { screenshot: ({ path }: { path: string }) => Promise.resolve(paths.push(path)) } as unknown as Page;
+    const recorder = new StepRecorder();
+
+    await expect(recorder.step('Open cart', () => Promise.reject(new Error('boom')), { screenshot: 'only-on-failure' }, stepScreenshot('CartPage', page)))
+      .rejects.toThrow('boom');
+
+    const [step] = recorder.getSteps();
+    expect(step.status).toBe(TestStatus.FAILED);
+    expect(paths).toHaveLength(1);
+    expect(paths[0]).toMatch(/^\.\/screenshots\/CartPage_step_Open_cart_\d+\.png$/);
+    expect(step.screenshot).toEqual({ name: 'Step Screenshot: Open cart', path: paths[0], contentType: 'image/png' });
+  });
+
+  test('не должен ронять шаг, если снимок не удался', async () => {
+    const page = { screenshot: () => Promise.reject(new Error('Target closed')) } as unknown as Page;
+    const recorder = new StepRecorder();
+
+    await expect(recorder.step('Submit', () => Promise.resolve(1), { screenshot: true }, stepScreenshot('Form', page))).resolves.toBe(1);
+
+    expect(recorder.getSteps()[0].status).toBe(TestStatus.PASSED);
+    expect(recorder.getSteps()[0].screenshot).toBeUndefined();
+  });
+
+  test('должен записывать вложенные шаги и путь к самому глубокому упавшему шагу', async () => {
+    const recorder = new StepRecorder();
+    const paths: string[][] = [];
+
+    await expect(recorder.record(async () => {
+      await recorder.step('Log in', async () => {
+        paths.push(recorder.getCurrentPath());
+        await recorder.step('Fill form', () => Promise.resolve());
+      });
+      await recorder.step('Checkout', async () => {
+        await recorder.step('Add to cart', () => Promise.resolve());
+        await recorder.step('Pay', async () => {
+          await recorder.step('Submit card', () => Promise.reject(new Error('declined')));
+        });
+      });
+    })).rejects.toThrow('declined');
+
+    const [login, checkout] = recorder.getSteps();
+    expect(paths).toEqual([['Log in']]);
+    expect(login.steps.map(step => [step.title, step.status])).toEqual([['Fill form', TestStatus.PASSED]]);
+    expect(checkout.steps.map(step => [step.title, step.status])).toEqual([
+      ['Add to cart', TestStatus.PASSED],
+      ['Pay', TestStatus.FAILED]
+    ]);
+    expect(recorder.getFailedPath()).toEqual(['Checkout', 'Pay', 'Submit card']);
+    expect(checkout.steps[1].steps[0].error?.message).toBe('declined');
+  });
+
+  test('должен возвращать пустой путь, если ни один шаг не упал', async () => {
+    const recorder = new StepRecorder();
+
+    await recorder.step('Open', () => Promise.resolve());
+
+    expect(recorder.getFailedPath()).toEqual([]);
+  });
+
+  test('должен снимать страницу после успешного шага только при screenshot: true', async () => {
+    let shots = 0;
+    const page = { screenshot: () => Promise.resolve(void shots++) } as unknown as Page;
+    const recorder = new StepRecorder();
+
+    await recorder.step('On failure only', () => Promise.resolve(), { screenshot: 'only-on-failure' }, stepScreenshot('Form', page));
+    await recorder.step('Always', () => Promise.resolve(), { screenshot: true }, stepScreenshot('Form', page));
+
+    expect(shots).toBe(1);
+    expect(recorder.getSteps().map(step => step.screenshot?.name)).toEqual([undefined, 'Step Screenshot: Always']);
+  });
+
+  test.describe('каталог снимков', () => {
+    const cwd = process.cwd();
+    let dir: string;
+
+    test.beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'steps-'));
+      fs.mkdirSync(path.join(dir, 'config'));
+      fs.writeFileSync(path.join(dir, 'config', 'base.json'), JSON.stringify({ screenshotsPath: 'artifacts/shots' }), 'utf8');
+      process.chdir(dir);
+      ConfigManager.getInstance().reload();
+    });
+
+    test.afterEach(() => {
+      process.chdir(cwd);
+      ConfigManager.getInstance().reload();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('должен сохранять снимки шагов в каталог screenshotsPath', async () => {
+      const paths: string[] = [];
+      const page = { screenshot: ({ path }: { path: string }) => Promise.resolve(paths.push(path)) } as unknown as Page;
+      const recorder = new StepRecorder();
+
+      await expect(recorder.step('Pay', () => Promise.reject(new Error('declined')), { screenshot: 'only-on-failure' }, stepScreenshot('CheckoutPage', page)))
+        .rejects.toThrow('declined');
+
+      expect(paths).toHaveLength(1);
+      expect(paths[0]).toMatch(/^artifacts\/shots\/CheckoutPage_step_Pay_\d+\.png$/);
+    });
+  });
+});
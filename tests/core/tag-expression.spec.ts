@@ -0,0 +1,66 @@
+import { test, expect } from '@playwright/test';
+import { TagExpression, TagExpressionError, normalizeTag } from '../../src/core/TagExpression';
+
+test.describe('TagExpression', () => {
+  const cases: Array<[string, string[], boolean]> = [
+    ['', [], true],
+    ['@smoke', ['smoke'], true],
+    ['smoke', ['@Smoke'], true],
+    ['@smoke', ['regression'], false],
+    ['@smoke and @fast', ['smoke', 'fast'], true],
+    ['@smoke and @fast', ['smoke'], false],
+    ['@smoke or @fast', ['fast'], true],
+    ['not @slow', ['smoke'], true],
+    ['not not @slow', ['slow'], true],
+    ['@smoke and not (@slow or @flaky)', ['smoke', 'flaky'], false],
+    ['@smoke and not (@slow or @flaky)', ['smoke'], true],
+    // not binds tighter than and, which binds tighter than or
+    ['@a or @b and @c', ['a'], true],
+    ['(@a or @b) and @c', ['a'], false],
+    ['!@a && @b', ['b'], true],
+    ['@a&&@b', ['a', 'b'], true],
+    ['@a&&@b', ['a'], false],
+    ['@a||@b', ['b'], true],
+    ['!(@a||@b)', ['c'], true],
+    ['@A AND NOT @b', ['a'], true]
+  ];
+
+  for (const [expression, tags, expected] of cases) {
+    test(`"${expression}" для [${tags.join(', ')}] должно давать ${expected}`, () => {
+      expect(TagExpression.parse(expression).matches(tags)).toBe(expected);
+    });
+  }
+
+  const errors: Array<[string, string, number]> = [
+    ['@a and', 'Unexpected end of expression', 6],
+    ['(@a or @b', 'Missing closing parenthesis', 9],
+    ['@a @b', 'Unexpected "@b"', 3],
+    ['@a ) or @b', 'Unexpected ")"', 3],
+    ['and @a', 'Unexpected "and"', 0],
+    ['@a & @b', 'Unknown operator "&" (use "&&")', 3],
+    ['@a|@b', 'Unknown operator "|" (use "||")', 2]
+  ];
+
+  for (const [expression, message, position] of errors) {
+    test(`должен отклонять "${expression}"`, () => {
+      let error: unknown;
+      try {
+        TagExpression.parse(expression);
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(TagExpressionError);
+      expect((error as TagExpressionError).message).toBe(`${message} at position ${position} in tag expression "${expression}"`);
+      expect((error as TagExpressionError).position).toBe(position);
+    });
+  }
+
+  test('должен считать пустое выражение подходящим для всех тестов', () => {
+    const expression = TagExpression.parse('   ');
+
+    expect(expression.isEmpty()).toBe(true);
+    expect(expression.toString()).toBe('');
+    expect(normalizeTag(' @Smoke ')).toBe('smoke');
+  });
+});
@@ -0,0 +1,21 @@
+import { test, expect } from '@playwright/test';
+import { shouldKeepTrace, shouldRecordTrace } from '../../src/core/tracing';
+import { TraceMode } from '../../src/core/types';
+
+test.describe('Trace modes', () => {
+  const cases: Array<[TraceMode | undefined, boolean[], boolean[]]> = [
+    // mode, recorded on retries 0..2, kept after [passed, failed] attempt
+    ['off', [false, false, false], [true, true]],
+    [undefined, [false, false, false], [true, true]],
+    ['on', [true, true, true], [true, true]],
+    ['retain-on-failure', [true, true, true], [false, true]],
+    ['on-first-retry', [false, true, false], [true, true]]
+  ];
+
+  for (const [mode, recorded, kept] of cases) {
+    test(`должен решать, записывать и сохранять ли трассу в режиме ${String(mode)}`, () => {
+      expect([0, 1, 2].map(retry => shouldRecordTrace(mode, retry))).toEqual(recorded);
+      expect([false, true].map(failed => shouldKeepTrace(mode, failed))).toEqual(kept);
+    });
+  }
+});
@@ -0,0 +1,31 @@
+import { TestStatus } from '../../src/core/constants';
+import { TestResult } from '../../src/core/types';
+
+/**
+ * Build a test result starting at a fixed time, so reports are stable
+ * @param name Test name
+ * @param status Test status
+ * @param overrides Other result fields
+ */
+export function testResult(name: string, status: TestStatus = TestStatus.PASSED, overrides: Partial<TestResult> = {}): TestResult {
+  const duration = overrides.duration ?? 100;
+  return {
+    name,
+    status,
+    duration,
+    startTime: new Date(1000),
+    endTime: new Date(1000 + duration),
+    ...overrides
+  };
+}
+
+/**
+ * Build a failed test result with an error whose stack is its first line only
+ * @param name Test name
+ * @param message Error message
+ * @param overrides Other result fields
+ */
+export function failedResult(name: string, message: string, overrides: Partial<TestResult> = {}): TestResult {
+  const error = Object.assign(new Error(message), { stack: `Error: ${message}` });
+  return testResult(name, TestStatus.FAILED, { error, ...overrides });
+}
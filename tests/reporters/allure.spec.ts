@@ -0,0 +1,133 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AllureReporter, AllureContainer, AllureResult, AllureStep } from '../../src/reporters';
+import { TestStatus } from '../../src/core/constants';
+import { testResult } from '../helpers/results';
+
+const ALLURE_STATUSES = ['passed', 'failed', 'broken', 'skipped', 'unknown'];
+
+/**
+ * Проверяет поля, обязательные для шагов и результатов в формате allure-results
+ */
+function expectAllureStep(step: AllureStep): void {
+  expect(typeof step.name).toBe('string');
+  expect(ALLURE_STATUSES).toContain(step.status);
+  expect(step.stage).toBe('finished');
+  expect(Number.isInteger(step.start)).toBe(true);
+  expect(step.stop).toBeGreaterThanOrEqual(step.start);
+  expect(Array.isArray(step.attachments)).toBe(true);
+  expect(Array.isArray(step.parameters)).toBe(true);
+  step.steps.forEach(expectAllureStep);
+}
+
+function readJson<T>(file: string): T {
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+}
+
+test.describe('AllureReporter', () => {
+  let dir: string;
+  let screenshot: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'allure-'));
+    screenshot = path.join(dir, 'failure.png');
+    fs.writeFileSync(screenshot, 'png');
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('должен записывать результаты, контейнеры и вложения в формате Allure', async () => {
+    const reporter = new AllureReporter({ outputDir: dir });
+    const stepError = new Error('expect(received).toBe(expected)');
+
+    reporter.onSuiteStart('Login', 3);
+    reporter.onTestEnd(testResult('logs in', TestStatus.PASSED, {
+      metadata: { tags: ['smoke', 'auth'] },
+      steps: [{
+        title: 'Open page',
+        status: TestStatus.PASSED,
+        startTime: new Date(1000),
+        endTime: new Date(1050),
+        duration: 50,
+        steps: [{ title: 'Fill form', status: TestStatus.PASSED, startTime: new Date(1010), endTime: new Date(1020), duration: 10, steps: [] }]
+      }]
+    }));
+    reporter.onTestEnd(testResult('shows error', TestStatus.FAILED, {
+      error: stepError,
+      attachments: [{ name: 'screenshot', path: screenshot, contentType: 'image/png' }]
+    }));
+    reporter.onTestEnd(testResult('times out', TestStatus.TIMED_OUT, { error: new Error('Timeout of 100ms exceeded') }));
+    reporter.onSuiteEnd('Login', 1, 2, 0);
+    await reporter.generateReport();
+
+    const resultsDir = reporter.getResultsDir();
+    const files = fs.readdirSync(resultsDir);
+    const results = files.filter(file => file.endsWith('-result.json')).map(file => readJson<AllureResult>(path.join(resultsDir, file)));
+    const containers = files.filter(file => file.endsWith('-container.json')).map(file => readJson<AllureContainer>(path.join(resultsDir, file)));
+
+    expect(results).toHaveLength(3);
+    for (const allureResult of results) {
+      expect(files).toContain(`${allureResult.uuid}-result.json`);
+      expect(allureResult.historyId).toMatch(/^[0-9a-f]{32}$/);
+      expect(allureResult.fullName).toBe(`Login ${allureResult.name}`);
+      expect(allureResult.labels).toContainEqual({ name: 'suite', value: 'Login' });
+      expectAllureStep(allureResult);
+    }
+
+    const byName = Object.fromEntries(results.map(allureResult => [allureResult.name, allureResult]));
+    expect(byName['logs in'].status).toBe('passed');
+    expect(byName['logs in'].labels.filter(label => label.name === 'tag').map(label => label.value)).toEqual(['smoke', 'auth']);
+    expect(byName['logs in'].steps[0].name).toBe('Open page');
+    expect(byName['logs in'].steps[0].steps[0].name).toBe('Fill form');
+
+    expect(byName['shows error'].status).toBe('failed');
+    expect(byName['shows error'].statusDetails.message).toBe(stepError.message);
+    expect(byName['shows error'].statusDetails.trace).toBe(stepError.stack);
+    const [attachment] = byName['shows error'].attachments;
+    expect(attachment).toMatchObject({ name: 'screenshot', type: 'image/png' });
+    expect(attachment.source).toMatch(/^[0-9a-f-]{36}-attachment\.png$/);
+    expect(fs.readFileSync(path.join(resultsDir, attachment.source), 'utf8')).toBe('png');
+
+    expect(byName['times out'].status).toBe('broken');
+
+    expect(containers).toHaveLength(1);
+    expect(containers[0].name).toBe('Login');
+    expect(containers[0].children.sort()).toEqual(results.map(allureResult => allureResult.uuid).sort());
+  });
+
+  test('должен отмечать пропущенные и нестабильные тесты', async () => {
+    const reporter = new AllureReporter({ outputDir: dir });
+    reporter.onTestEnd(testResult('skipped', TestStatus.SKIPPED, { metadata: { skipReason: 'Not ready' } }));
+    reporter.onTestEnd(testResult('flaky', TestStatus.FLAKY, { retries: 1 }));
+    await reporter.generateReport();
+
+    const resultsDir = reporter.getResultsDir();
+    const results = fs.readdirSync(resultsDir)
+      .filter(file => file.endsWith('-result.json'))
+      .map(file => readJson<AllureResult>(path.join(resultsDir, file)));
+    const byName = Object.fromEntries(results.map(allureResult => [allureResult.name, allureResult]));
+
+    expect(byName.skipped).toMatchObject({ status: 'skipped', statusDetails: { message: 'Not ready' } });
+    expect(byName.flaky).toMatchObject({ status: 'passed', statusDetails: { flaky: true } });
+    expect(byName.flaky.parameters).toEqual([{ name: 'retries', value: '1' }]);
+  });
+
+  test('должен записывать environment.properties и categories.json', async () => {
+    const reporter = new AllureReporter({ outputDir: dir, environmentInfo: { 'build.url': 'https://ci/1' } });
+    reporter.onTestEnd(testResult('test'));
+    await reporter.generateReport();
+
+    const properties = fs.readFileSync(path.join(reporter.getResultsDir(), 'environment.properties'), 'utf8');
+    expect(properties).toMatch(/^environment=\S+$/m);
+    expect(properties).toMatch(/^browser=\S+$/m);
+    expect(properties).toContain('build.url=https\\://ci/1');
+
+    const categories = readJson<Array<{ name: string; matchedStatuses?: string[] }>>(path.join(reporter.getResultsDir(), 'categories.json'));
+    expect(categories.map(category => category.name)).toEqual(['Product defects', 'Test defects', 'Flaky tests']);
+    categories.forEach(category => category.matchedStatuses?.forEach(status => expect(ALLURE_STATUSES).toContain(status)));
+  });
+});
@@ -0,0 +1,143 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BaseReporter } from '../../src/core/BaseReporter';
+import { TestResult } from '../../src/core/types';
+import { CompositeReporter, JUnitReporter, ReporterError, ReporterRegistry } from '../../src/reporters';
+import { testResult } from '../helpers/results';
+
+/**
+ * Репортер, записывающий полученные вызовы
+ */
+class RecordingReporter extends BaseReporter {
+  calls: string[] = [];
+
+  onSuiteStart(suiteName: string, _totalTests: number): void {
+    this.calls.push(`suiteStart:${suiteName}`);
+  }
+
+  onTestEnd(result: TestResult): void {
+    super.onTestEnd(result);
+    this.calls.push(`testEnd:${result.name}`);
+  }
+
+  generateReport(): Promise<void> {
+    this.calls.push('generateReport');
+    return Promise.resolve();
+  }
+}
+
+class BrokenReporter extends BaseReporter {
+  onTestEnd(_result: TestResult): void {
+    throw new Error('onTestEnd is broken');
+  }
+
+  generateReport(): Promise<void> {
+    return Promise.reject(new Error('generateReport is broken'));
+  }
+}
+
+test.describe('CompositeReporter', () => {
+  test('должен передавать вызовы всем репортерам', async () => {
+    const first = new RecordingReporter();
+    const second = new RecordingReporter();
+    const composite = new CompositeReporter([first, second]);
+
+    composite.onSuiteStart('Login', 1);
+    composite.onTestEnd(testResult('logs in'));
+    await composite.generateReport();
+
+    expect(first.calls).toEqual(['suiteStart:Login', 'testEnd:logs in', 'generateReport']);
+    expect(second.calls).toEqual(first.calls);
+    expect(composite.getResults()).toHaveLength(1);
+  });
+
+  test('должен изолировать ошибки одного репортера от остальных', async () => {
+    const recording = new RecordingReporter();
+    const composite = new CompositeReporter([new BrokenReporter(), recording]);
+
+    composite.onTestEnd(testResult('logs in'));
+    await composite.generateReport();
+
+    expect(recording.calls).toEqual(['testEnd:logs in', 'generateReport']);
+    expect(composite.getFailures().map(failure => [failure.reporter, failure.callback, failure.error.message])).toEqual([
+      ['BrokenReporter', 'onTestEnd', 'onTestEnd is broken'],
+      ['BrokenReporter', 'generateReport', 'generateReport is broken']
+    ]);
+  });
+});
+
+test.describe('ReporterRegistry', () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-'));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Записывает модуль репортера во временный каталог и возвращает путь к нему
+   */
+  function writeModule(name: string, source: string): string {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, source);
+    return file;
+  }
+
+  test('должен создавать репортер из модуля с опциями', () => {
+    const file = writeModule('custom-reporter.js', [
+      'class CustomReporter {',
+      '  constructor(options) { this.options = options; }',
+      '  onTestEnd() {}',
+      '  generateReport() { return Promise.resolve(); }',
+      '}',
+      'module.exports = { default: CustomReporter };'
+    ].join('\n'));
+
+    const reporter = ReporterRegistry.getInstance().create(file, { channel: '#qa' }) as unknown as { options: unknown };
+
+    expect(reporter.constructor.name).toBe('CustomReporter');
+    expect(reporter.options).toEqual({ channel: '#qa' });
+  });
+
+  test('должен отклонять модуль, не экспортирующий репортер', () => {
+    const file = writeModule('not-a-reporter.js', 'module.exports = { name: "nope" };');
+
+    expect(() => ReporterRegistry.getInstance().create(file)).toThrow(ReporterError);
+    expect(() => ReporterRegistry.getInstance().create(file)).toThrow(/must export a class extending BaseReporter/);
+  });
+
+  test('должен пропускать репортеры, которые не удалось создать', () => {
+    const throwing = writeModule('throwing-reporter.js', [
+      'class ThrowingReporter {',
+      '  constructor() { throw new Error("missing token"); }',
+      '  onTestEnd() {}',
+      '  generateReport() {}',
+      '}',
+      'module.exports = ThrowingReporter;'
+    ].join('\n'));
+
+    const reporters = ReporterRegistry.getInstance().createFromConfig([
+      'no-such-reporter',
+      path.join(dir, 'missing.js'),
+      throwing,
+      ['junit', { outputDir: dir }]
+    ]);
+
+    expect(reporters).toHaveLength(1);
+    expect(reporters[0]).toBeInstanceOf(JUnitReporter);
+  });
+
+  test('должен оборачивать ошибку конструктора в ReporterError', () => {
+    const registry = ReporterRegistry.getInstance();
+    registry.register('broken', () => {
+      throw new Error('missing token');
+    });
+
+    expect(() => registry.create('broken')).toThrow("Cannot create reporter 'broken': missing token");
+  });
+});
@@ -0,0 +1,100 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { HtmlReporter } from '../../src/reporters';
+import { TestStatus } from '../../src/core/constants';
+import { failedResult, testResult } from '../helpers/results';
+
+test.describe('HtmlReporter', () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'html-'));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('должен показывать сводку, фильтры и раскрывать упавшие тесты', async () => {
+    const reporter = new HtmlReporter({ outputDir: dir, title: 'Nightly <run>' });
+
+    reporter.onTestEnd(testResult('logs in', TestStatus.PASSED, { duration: 200, metadata: { tags: ['smoke'] } }));
+    reporter.onTestEnd(failedResult('loads <b>user</b>', 'Request to /users/1 failed'));
+    reporter.onTestEnd(testResult('filtered', TestStatus.SKIPPED, { metadata: { skipReason: 'tag filter', tags: ['slow'] } }));
+    reporter.onTestEnd(failedResult('unstable', 'Timeout', { metadata: { quarantined: true } }));
+
+    const html = await reporter.toHtml();
+
+    expect(html).toContain('<title>Nightly &lt;run&gt;</title>');
+    expect(html).toContain('<div>Total<b>4</b></div>');
+    expect(html).toContain('<div class="passed">Passed<b>1</b></div>');
+    expect(html).toContain('<div class="failed">Failed<b>1</b></div>');
+    expect(html).toContain('<div>Quarantined<b>1</b></div>');
+    expect(html).toContain('<label class="failed"><input type="checkbox" data-filter-status value="failed" checked> failed</label>');
+    expect(html).not.toContain('value="flaky"');
+    expect(html).toContain('<option value="slow">slow</option><option value="smoke">smoke</option>');
+    expect(html).toContain('<details class="test" data-status="failed" data-tags="" open>');
+    expect(html).toContain('<span>loads &lt;b&gt;user&lt;/b&gt;</span>');
+    expect(html).toContain('<pre class="error">Error: Request to /users/1 failed</pre>');
+    expect(html).toContain('<details class="test" data-status="skipped" data-tags="slow">');
+    expect(html).toContain('<p>tag filter</p>');
+    // Durations are drawn relative to the slowest test
+    expect(html).toContain('<span class="bar" style="width: 140px"></span>');
+    expect(html).toContain('<span class="bar" style="width: 70px"></span>');
+  });
+
+  test('должен показывать группы одинаковых падений', async () => {
+    const reporter = new HtmlReporter({ outputDir: dir });
+
+    reporter.onTestEnd(failedResult('user 1', 'Request to /users/1 failed'));
+    reporter.onTestEnd(failedResult('user 2', 'Request to /users/2 failed'));
+    reporter.onTestEnd(failedResult('login', 'Invalid password'));
+
+    const html = await reporter.toHtml();
+
+    expect(html).toContain('<summary><b>2 tests failed with the same root cause:</b> <span class="error">Error: Request to /users/&lt;n&gt; failed</span></summary>');
+    expect(html).toContain('<ul><li>user 1</li><li>user 2</li></ul>');
+    expect(html).not.toContain('1 tests failed');
+  });
+
+  test('должен встраивать снимки шагов и ссылаться на видео и прочие вложения', async () => {
+    const screenshot = path.join(dir, 'step.png');
+    fs.writeFileSync(screenshot, Buffer.from([1, 2, 3]));
+    const reporter = new HtmlReporter({ outputDir: dir, outputFile: 'html/index.html' });
+
+    reporter.onTestEnd(testResult('checkout', TestStatus.PASSED, {
+      retries: 2,
+      attachments: [
+        { name: 'video', path: path.join(dir, 'videos', 'checkout run.webm'), contentType: 'video/webm' },
+        { name: 'missing', path: path.join(dir, 'gone.png'), contentType: 'image/png' }
+      ],
+      steps: [{
+        title: 'pay',
+        status: TestStatus.FAILED,
+        startTime: new Date(0),
+        endTime: new Date(50),
+        duration: 50,
+        error: new Error('declined'),
+        screenshot: { name: 'pay', path: screenshot, contentType: 'image/png' },
+        steps: []
+      }]
+    }));
+    await reporter.generateReport();
+
+    const html = fs.readFileSync(path.join(dir, 'html', 'index.html'), 'utf8');
+    expect(html).toContain('<p>Retries: 2</p>');
+    expect(html).toContain('<ul class="steps"><li><span class="failed">pay</span> (50ms) <span class="error">declined</span><img alt="pay" src="data:image/png;base64,AQID"></li></ul>');
+    expect(html).toContain('<p>Video: <a href="../videos/checkout%20run.webm">video</a></p>');
+    expect(html).toContain(`<p>Screenshot missing is missing (${path.join(dir, 'gone.png')})</p>`);
+  });
+
+  test('должен скрывать вложения, отключённые в опциях', async () => {
+    const reporter = new HtmlReporter({ outputDir: dir, videos: false });
+
+    reporter.onTestEnd(testResult('test', TestStatus.PASSED, { attachments: [{ name: 'video', path: 'video.webm', contentType: 'video/webm' }] }));
+
+    expect(await reporter.toHtml()).not.toContain('video.webm');
+  });
+});
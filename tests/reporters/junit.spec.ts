@@ -0,0 +1,120 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JUnitReporter } from '../../src/reporters';
+import { TestStatus } from '../../src/core/constants';
+import { SecretMasker } from '../../src/utils/SecretMasker';
+import { failedResult, testResult } from '../helpers/results';
+
+test.describe('JUnitReporter', () => {
+  test('должен формировать наборы и тест-кейсы со статусами, свойствами и шагами', () => {
+    const reporter = new JUnitReporter({ suiteName: 'Run' });
+
+    reporter.onSuiteStart('Login', 4);
+    reporter.onTestEnd(testResult('logs in', TestStatus.FLAKY, {
+      retries: 1,
+      attachments: [{ name: 'trace', path: 'traces/login.zip', contentType: 'application/zip' }],
+      metadata: { tags: ['smoke'], annotations: [{ type: 'issue', description: 'JIRA-1' }] },
+      steps: [{
+        title: 'open page',
+        status: TestStatus.PASSED,
+        startTime: new Date(0),
+        endTime: new Date(20),
+        duration: 20,
+        steps: [{ title: 'click "Login"', status: TestStatus.FAILED, startTime: new Date(0), endTime: new Date(5), duration: 5, error: new Error('detached'), steps: [] }]
+      }]
+    }));
+    reporter.onTestEnd(testResult('rejects <bad> password', TestStatus.FAILED, {
+      error: Object.assign(new TypeError('expected "a" & got \u001B[31m\'b\'\u001B[0m'), { stack: 'TypeError: boom\n    at login.ts:1:1' })
+    }));
+    reporter.onTestEnd(failedResult('loads', 'Timeout', { status: TestStatus.TIMED_OUT }));
+    reporter.onTestEnd(testResult('filtered', TestStatus.SKIPPED, { duration: 0, metadata: { skipReason: 'tag filter' } }));
+    reporter.onSuiteEnd('Login', 1, 2, 1);
+    reporter.onSuiteStart('Empty', 0);
+    reporter.onSuiteEnd('Empty', 0, 0, 0);
+
+    // Suites are stamped with the time they started
+    expect(reporter.toXml().replace(/timestamp="[^"]+"/, 'timestamp="<start>"')).toBe([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<testsuites name="Run" tests="4" failures="1" errors="1" skipped="1" time="0.300">',
+      '  <testsuite name="Login" timestamp="<start>" tests="4" failures="1" errors="1" skipped="1" time="0.300">',
+      '    <testcase name="logs in" classname="Login" time="0.100">',
+      '      <properties>',
+      '        <property name="retries" value="1"/>',
+      '        <property name="flaky" value="true"/>',
+      '        <property name="tag" value="smoke"/>',
+      '        <property name="annotation:issue" value="JIRA-1"/>',
+      '        <property name="attachment:trace" value="traces/login.zip"/>',
+      '      </properties>',
+      '      <system-out>✓ open page (20ms)\n  ✗ click &quot;Login&quot; (5ms) - detached</system-out>',
+      '    </testcase>',
+      '    <testcase name="rejects &lt;bad&gt; password" classname="Login" time="0.100">',
+      '      <failure message="expected &quot;a&quot; &amp; got &apos;b&apos;" type="TypeError">TypeError: boom\n    at login.ts:1:1</failure>',
+      '    </testcase>',
+      '    <testcase name="loads" classname="Login" time="0.100">',
+      '      <error message="Timeout" type="Error">Error: Timeout</error>',
+      '    </testcase>',
+      '    <testcase name="filtered" classname="Login" time="0.000">',
+      '      <skipped message="tag filter"/>',
+      '    </testcase>',
+      '  </testsuite>',
+      '</testsuites>',
+      ''
+    ].join('\n'));
+  });
+
+  test('должен собирать тесты вне наборов в набор по умолчанию и записывать файл', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'junit-'));
+    try {
+      const reporter = new JUnitReporter({ outputDir: dir, outputFile: 'reports/junit.xml', suiteName: 'Smoke', logs: false });
+      reporter.onTestEnd(testResult('health check'));
+      await reporter.generateReport();
+
+      const xml = fs.readFileSync(path.join(dir, 'reports', 'junit.xml'), 'utf8');
+      expect(xml).toContain('<testsuite name="Smoke" timestamp="1970-01-01T00:00:01.000Z" tests="1" failures="0" errors="0" skipped="0" time="0.100">');
+      expect(xml).toContain('<testcase name="health check" classname="Smoke" time="0.100">');
+
+      reporter.clearResults();
+      expect(reporter.toXml()).toBe('<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="Smoke" tests="0" failures="0" errors="0" skipped="0" time="0.000">\n</testsuites>\n');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('должен маскировать секреты в именах и ошибках', () => {
+    SecretMasker.getInstance().register('hunter2');
+    try {
+      const reporter = new JUnitReporter();
+      reporter.onSuiteStart('Login as hunter2', 1);
+      reporter.onTestEnd(failedResult('types hunter2', 'bad hunter2'));
+
+      const xml = reporter.toXml();
+      expect(xml).not.toContain('hunter2');
+      expect(xml).toContain('<testcase name="types ******" classname="Login as ******" time="0.100">');
+    } finally {
+      SecretMasker.getInstance().clear();
+    }
+  });
+
+  test('должен отмечать упавшие тесты на карантине как пропущенные', () => {
+    const reporter = new JUnitReporter({ suiteName: 'Run' });
+
+    reporter.onTestEnd(testResult('passes'));
+    reporter.onTestEnd(failedResult('fails', 'broken'));
+    reporter.onTestEnd(testResult('quarantined', TestStatus.TIMED_OUT, {
+      error: Object.assign(new Error('Timeout 30000ms exceeded'), { stack: 'Error: Timeout 30000ms exceeded\n    at page.ts:1:1' }),
+      metadata: { quarantined: true }
+    }));
+
+    const xml = reporter.toXml();
+    const quarantined = xml.substring(xml.indexOf('<testcase name="quarantined"'));
+
+    expect(xml).toContain('<testsuites name="Run" tests="3" failures="1" errors="0" skipped="1" time="0.300">');
+    expect(quarantined).toContain('<property name="quarantined" value="true"/>');
+    expect(quarantined).toContain('<skipped message="Quarantined test failed: Timeout 30000ms exceeded"/>');
+    expect(quarantined).toContain('<system-err>Error: Timeout 30000ms exceeded\n    at page.ts:1:1</system-err>');
+    expect(quarantined).not.toContain('<error');
+    expect(reporter.getSummary()).toMatchObject({ total: 3, passed: 1, failed: 1, quarantined: 1 });
+  });
+});
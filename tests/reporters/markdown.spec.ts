@@ -0,0 +1,91 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MarkdownReporter } from '../../src/reporters';
+import { TestStatus } from '../../src/core/constants';
+import { failedResult, testResult } from '../helpers/results';
+
+test.describe('MarkdownReporter', () => {
+  let dir: string;
+  let stepSummary: string | undefined;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'markdown-'));
+    stepSummary = process.env.GITHUB_STEP_SUMMARY;
+  });
+
+  test.afterEach(() => {
+    if (stepSummary === undefined) {
+      delete process.env.GITHUB_STEP_SUMMARY;
+    } else {
+      process.env.GITHUB_STEP_SUMMARY = stepSummary;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('должен формировать сводку с таблицей, группами ошибок и нестабильными тестами', () => {
+    const reporter = new MarkdownReporter({ outputDir: dir, maxFailures: 2 });
+
+    reporter.onTestEnd(testResult('logs in'));
+    reporter.onTestEnd(failedResult('loads user 1', 'Request to /users/1 failed with status 500'));
+    reporter.onTestEnd(failedResult('loads user 2', 'Request to /users/2 failed with status 500'));
+    reporter.onTestEnd(failedResult('renders *table*', 'Value has ``` fences'));
+    reporter.onTestEnd(testResult('retries', TestStatus.FLAKY, { retries: 2 }));
+
+    const markdown = reporter.toMarkdown();
+
+    expect(markdown).toContain('## ❌ Test Results');
+    expect(markdown).toContain('| ✅ Passed | 1 |');
+    expect(markdown).toContain('| ❌ Failed | 3 |');
+    expect(markdown).toContain('| **Total** | **5** |');
+    expect(markdown).toContain('- **2 tests failed with the same root cause:** ` Error: Request to /users/<n> failed with status <n> `');
+    expect(markdown).toContain('### Failures (3)');
+    expect(markdown).toContain('#### ❌ loads user 1');
+    expect(markdown).toContain('```\nRequest to /users/1 failed with status 500\n```');
+    expect(markdown).not.toContain('renders');
+    expect(markdown).toContain('…and 1 more');
+    expect(markdown).toContain('- retries (passed after 2 retries)');
+  });
+
+  test('не должен считать упавшие тесты на карантине проваленными', () => {
+    const reporter = new MarkdownReporter({ outputDir: dir });
+
+    reporter.onTestEnd(testResult('logs in'));
+    reporter.onTestEnd(failedResult('unstable', 'Timeout exceeded', { metadata: { quarantined: true } }));
+
+    const markdown = reporter.toMarkdown();
+
+    expect(markdown).toContain('## ✅ Test Results');
+    expect(markdown).toContain('| ❌ Failed | 0 |');
+    expect(markdown).toContain('| 🔒 Quarantined | 1 |');
+    expect(markdown).not.toContain('### Failures');
+    expect(markdown).toContain('### Quarantined failures (1)');
+    expect(markdown).toContain('- unstable: ` Timeout exceeded `');
+  });
+
+  test('должен экранировать имена тестов и удлинять ограждение блока кода', () => {
+    const reporter = new MarkdownReporter({ outputDir: dir });
+
+    reporter.onTestEnd(failedResult('renders *table* <b>', 'Value has ``` fences'));
+
+    const markdown = reporter.toMarkdown();
+
+    expect(markdown).toContain('#### ❌ renders \\*table\\* \\<b\\>');
+    expect(markdown).toContain('````\nValue has ``` fences\n````');
+  });
+
+  test('должен записывать файл и дописывать сводку в GITHUB_STEP_SUMMARY', async () => {
+    const summaryFile = path.join(dir, 'step-summary.md');
+    fs.writeFileSync(summaryFile, '# Previous step\n');
+    process.env.GITHUB_STEP_SUMMARY = summaryFile;
+
+    const reporter = new MarkdownReporter({ outputDir: dir, title: 'Smoke' });
+    reporter.onTestEnd(testResult('logs in'));
+    await reporter.generateReport();
+
+    const markdown = fs.readFileSync(path.join(dir, 'summary.md'), 'utf8');
+    expect(markdown).toContain('## ✅ Smoke');
+    expect(fs.readFileSync(summaryFile, 'utf8')).toBe(`# Previous step\n${markdown}`);
+  });
+});
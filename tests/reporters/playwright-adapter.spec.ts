@@ -0,0 +1,258 @@
+import { test, expect } from '@playwright/test';
+import type { FullConfig, FullResult, Suite, TestCase, TestResult as PlaywrightTestResult } from '@playwright/test/reporter';
+import { BaseReporter } from '../../src/core/BaseReporter';
+import { TestStatus } from '../../src/core/constants';
+import { TestResult } from '../../src/core/types';
+import { JUnitReporter, PlaywrightReporterAdapter } from '../../src/reporters';
+
+/**
+ * Репортер, записывающий полученные вызовы
+ */
+class RecordingReporter extends BaseReporter {
+  calls: string[] = [];
+
+  onSuiteStart(suiteName: string, totalTests: number): void {
+    this.calls.push(`suiteStart:${suiteName}:${totalTests}`);
+  }
+
+  onSuiteEnd(suiteName: string, totalPassed: number, totalFailed: number, totalSkipped: number): void {
+    this.calls.push(`suiteEnd:${suiteName}:${totalPassed}/${totalFailed}/${totalSkipped}`);
+  }
+
+  onTestStart(testName: string): void {
+    this.calls.push(`testStart:${testName}`);
+  }
+
+  onTestEnd(result: TestResult): void {
+    super.onTestEnd(result);
+    this.calls.push(`testEnd:${result.name}:${result.status}`);
+  }
+
+  generateReport(): Promise<void> {
+    this.calls.push('generateReport');
+    return Promise.resolve();
+  }
+}
+
+type Outcome = ReturnType<TestCase['outcome']>;
+
+interface FakeTest {
+  title: string;
+  retries?: number;
+  expectedStatus?: PlaywrightTestResult['status'];
+  annotations?: TestCase['annotations'];
+  tags?: string[];
+}
+
+/**
+ * Создаёт файловый набор с тестами в формате Playwright Test
+ */
+function createFileSuite(file: string, specs: FakeTest[]): { suite: Suite; tests: TestCase[] } {
+  const project = { name: 'chromium' };
+  const root = { type: 'root', title: '', parent: undefined, project: () => undefined };
+  const suite = { type: 'file', title: file, parent: root, project: () => project, allTests: (): TestCase[] => tests };
+  const tests = specs.map(spec => {
+    const testCase = {
+      title: spec.title,
+      parent: suite,
+      retries: spec.retries ?? 0,
+      expectedStatus: spec.expectedStatus ?? 'passed',
+      annotations: spec.annotations ?? [],
+      tags: spec.tags ?? [],
+      location: { file: `/project/tests/${file}`, line: 3, column: 1 },
+      results: [] as PlaywrightTestResult[],
+      titlePath: () => ['', 'chromium', file, spec.title],
+      outcome: (): Outcome => outcome(testCase.results, testCase.expectedStatus)
+    };
+    return testCase;
+  }) as unknown as TestCase[];
+  return { suite: suite as unknown as Suite, tests };
+}
+
+function outcome(results: PlaywrightTestResult[], expectedStatus: string): Outcome {
+  const statuses = results.map(result => result.status);
+  if (statuses.every(status => status === 'skipped' || status === 'interrupted')) {
+    return 'skipped';
+  }
+  if (statuses[statuses.length - 1] !== expectedStatus) {
+    return 'unexpected';
+  }
+  return statuses.length > 1 ? 'flaky' : 'expected';
+}
+
+/**
+ * Создаёт попытку теста и добавляет её к результатам теста
+ */
+function attempt(
+  testCase: TestCase,
+  status: PlaywrightTestResult['status'],
+  overrides: Partial<PlaywrightTestResult> = {}
+): PlaywrightTestResult {
+  const result = {
+    retry: testCase.results.length,
+    status,
+    duration: 100,
+    startTime: new Date(1000 + testCase.results.length * 1000),
+    attachments: [],
+    steps: [],
+    errors: [],
+    ...overrides
+  } as unknown as PlaywrightTestResult;
+  testCase.results.push(result);
+  return result;
+}
+
+function run(adapter: PlaywrightReporterAdapter, testCase: TestCase, result: PlaywrightTestResult): void {
+  adapter.onTestBegin(testCase, result);
+  adapter.onTestEnd(testCase, result);
+}
+
+test.describe('PlaywrightReporterAdapter', () => {
+  test('должен передавать начало и конец теста сразу, открывая и закрывая набор по первому и последнему тесту', async () => {
+    const reporter = new RecordingReporter();
+    const adapter = new PlaywrightReporterAdapter({ reporters: [reporter] });
+    const login = createFileSuite('login.spec.ts', [{ title: 'logs in' }, { title: 'logs out' }]);
+    const cart = createFileSuite('cart.spec.ts', [{ title: 'adds item' }]);
+    const root = { allTests: () => [...login.tests, ...cart.tests] } as unknown as Suite;
+
+    adapter.onBegin({} as FullConfig, root);
+    const first = attempt(login.tests[0], 'passed');
+    adapter.onTestBegin(login.tests[0], first);
+    expect(reporter.calls).toEqual(['suiteStart:chromium › login.spec.ts:2', 'testStart:logs in']);
+
+    run(adapter, cart.tests[0], attempt(cart.tests[0], 'failed', { error: { message: 'Error: boom' } }));
+    adapter.onTestEnd(login.tests[0], first);
+    run(adapter, login.tests[1], attempt(login.tests[1], 'passed'));
+    await adapter.onEnd({ status: 'failed' } as FullResult);
+
+    expect(reporter.calls).toEqual([
+      'suiteStart:chromium › login.spec.ts:2',
+      'testStart:logs in',
+      'suiteStart:chromium › cart.spec.ts:1',
+      'testStart:adds item',
+      `testEnd:adds item:${TestStatus.FAILED}`,
+      'suiteEnd:chromium › cart.spec.ts:0/1/0',
+      `testEnd:logs in:${TestStatus.PASSED}`,
+      'testStart:logs out',
+      `testEnd:logs out:${TestStatus.PASSED}`,
+      'suiteEnd:chromium › login.spec.ts:2/0/0',
+      'generateReport'
+    ]);
+    expect(reporter.getResults().map(result => result.metadata?.suite)).toEqual([
+      'chromium › cart.spec.ts',
+      'chromium › login.spec.ts',
+      'chromium › login.spec.ts'
+    ]);
+  });
+
+  test('должен сообщать о тесте после последней попытки и отмечать нестабильные тесты', async () => {
+    const reporter = new RecordingReporter();
+    const adapter = new PlaywrightReporterAdapter({ reporters: [reporter] });
+    const { suite, tests } = createFileSuite('checkout.spec.ts', [{ title: 'pays', retries: 2 }, { title: 'refunds', retries: 1 }]);
+
+    adapter.onBegin({} as FullConfig, suite);
+    run(adapter, tests[0], attempt(tests[0], 'failed', { error: { message: 'TimeoutError: slow' } }));
+    run(adapter, tests[0], attempt(tests[0], 'passed'));
+    run(adapter, tests[1], attempt(tests[1], 'failed', { error: { message: 'Error: declined' } }));
+    run(adapter, tests[1], attempt(tests[1], 'timedOut', { error: { message: 'Test timeout of 30000ms exceeded.' } }));
+    await adapter.onEnd({ status: 'failed' } as FullResult);
+
+    expect(reporter.calls).toEqual([
+      'suiteStart:chromium › checkout.spec.ts:2',
+      'testStart:pays',
+      `testEnd:pays:${TestStatus.FLAKY}`,
+      'testStart:refunds',
+      `testEnd:refunds:${TestStatus.TIMED_OUT}`,
+      'suiteEnd:chromium › checkout.spec.ts:1/1/0',
+      'generateReport'
+    ]);
+
+    const [pays, refunds] = reporter.getResults();
+    expect(pays.retries).toBe(1);
+    expect(pays.attempts?.map(item => item.status)).toEqual([TestStatus.FAILED, TestStatus.PASSED]);
+    expect(pays.attempts?.[0].error?.name).toBe('TimeoutError');
+    expect(pays.error).toBeUndefined();
+    expect(refunds.error?.message).toBe('Test timeout of 30000ms exceeded.');
+  });
+
+  test('должен передавать пропущенные и прерванные тесты с причиной пропуска', async () => {
+    const reporter = new RecordingReporter();
+    const adapter = new PlaywrightReporterAdapter({ reporters: [reporter] });
+    const { suite, tests } = createFileSuite('search.spec.ts', [
+      { title: 'filters', expectedStatus: 'skipped', annotations: [{ type: 'skip', description: 'Not on mobile' }] },
+      { title: 'sorts' },
+      { title: 'paginates' }
+    ]);
+
+    adapter.onBegin({} as FullConfig, suite);
+    run(adapter, tests[0], attempt(tests[0], 'skipped'));
+    run(adapter, tests[1], attempt(tests[1], 'interrupted'));
+    // Прогон прерван до начала третьего теста: набор закрывается в onEnd
+    await adapter.onEnd({ status: 'interrupted' } as FullResult);
+
+    expect(reporter.calls).toEqual([
+      'suiteStart:chromium › search.spec.ts:3',
+      'testStart:filters',
+      `testEnd:filters:${TestStatus.SKIPPED}`,
+      'testStart:sorts',
+      `testEnd:sorts:${TestStatus.SKIPPED}`,
+      'suiteEnd:chromium › search.spec.ts:0/0/2',
+      'generateReport'
+    ]);
+    expect(reporter.getResults().map(result => result.metadata?.skipReason)).toEqual(['Not on mobile', 'Interrupted']);
+  });
+
+  test('должен переносить вложения с файлами, теги и шаги', () => {
+    const reporter = new RecordingReporter();
+    const adapter = new PlaywrightReporterAdapter({ reporters: [reporter] });
+    const { suite, tests } = createFileSuite('profile.spec.ts', [{ title: 'edits', retries: 1, tags: ['@smoke'] }]);
+
+    adapter.onBegin({} as FullConfig, suite);
+    run(adapter, tests[0], attempt(tests[0], 'failed', {
+      error: { message: 'Error: boom' },
+      attachments: [
+        { name: 'screenshot', contentType: 'image/png', path: '/results/retry0.png' },
+        { name: 'log', contentType: 'text/plain', body: Buffer.from('in memory') }
+      ]
+    }));
+    run(adapter, tests[0], attempt(tests[0], 'passed', {
+      attachments: [{ name: 'video', contentType: 'video/webm', path: '/results/retry1.webm' }],
+      steps: [{
+        title: 'Open profile',
+        category: 'test.step',
+        startTime: new Date(2000),
+        duration: 20,
+        steps: [{ title: 'page.click', category: 'pw:api', startTime: new Date(2005), duration: 5, steps: [] }]
+      }] as unknown as PlaywrightTestResult['steps']
+    }));
+
+    const [result] = reporter.getResults();
+    expect(result.attachments).toEqual([
+      { name: 'screenshot', path: '/results/retry0.png', contentType: 'image/png' },
+      { name: 'video', path: '/results/retry1.webm', contentType: 'video/webm' }
+    ]);
+    expect(result.attempts?.map(item => item.attachments.length)).toEqual([1, 1]);
+    expect(result.metadata?.tags).toEqual(['smoke']);
+    expect(result.steps?.map(step => [step.title, step.steps?.length])).toEqual([['Open profile', 0]]);
+  });
+
+  test('должен относить тесты параллельно выполняемых файлов к их наборам в JUnit', () => {
+    const junit = new JUnitReporter();
+    const adapter = new PlaywrightReporterAdapter({ reporters: [junit] });
+    const login = createFileSuite('login.spec.ts', [{ title: 'logs in' }]);
+    const cart = createFileSuite('cart.spec.ts', [{ title: 'adds item' }]);
+    const root = { allTests: () => [...login.tests, ...cart.tests] } as unknown as Suite;
+
+    adapter.onBegin({} as FullConfig, root);
+    const loginAttempt = attempt(login.tests[0], 'passed');
+    const cartAttempt = attempt(cart.tests[0], 'passed');
+    adapter.onTestBegin(login.tests[0], loginAttempt);
+    adapter.onTestBegin(cart.tests[0], cartAttempt);
+    adapter.onTestEnd(login.tests[0], loginAttempt);
+    adapter.onTestEnd(cart.tests[0], cartAttempt);
+
+    const xml = junit.toXml();
+    expect(xml).toContain('<testcase name="logs in" classname="chromium › login.spec.ts"');
+    expect(xml).toContain('<testcase name="adds item" classname="chromium › cart.spec.ts"');
+  });
+});
@@ -0,0 +1,125 @@
+import { test, expect } from '@playwright/test';
+import { TeamCityReporter, escapeServiceValue } from '../../src/reporters';
+import { TestStatus } from '../../src/core/constants';
+import { failedResult, testResult } from '../helpers/results';
+
+test.describe('TeamCityReporter', () => {
+  test('должен экранировать значения атрибутов сервисных сообщений', () => {
+    expect(escapeServiceValue("it's [a]|b\r\n\u001B[31mred\u001B[0m")).toBe("it|'s |[a|]||b|r|nred");
+    expect(escapeServiceValue('\u0085\u2028\u2029')).toBe('|x|l|p');
+  });
+
+  test('должен выводить сервисные сообщения для тестов и статистику сборки', async () => {
+    const lines: string[] = [];
+    const reporter = new TeamCityReporter({ write: line => lines.push(line) });
+
+    reporter.onSuiteStart('Login', 4);
+    reporter.onTestStart('logs in');
+    reporter.onTestEnd(testResult('logs in', TestStatus.PASSED, { duration: 120.4 }));
+    reporter.onTestStart('rejects password');
+    reporter.onTestEnd(testResult('rejects password', TestStatus.FAILED, {
+      error: Object.assign(new Error("expected 'a'"), { stack: "Error: expected 'a'\n    at login.ts:1:1" })
+    }));
+    reporter.onTestEnd(testResult('filtered', TestStatus.SKIPPED, { metadata: { skipReason: 'tag filter' } }));
+    reporter.onTestStart('retries');
+    reporter.onTestEnd(testResult('retries', TestStatus.FLAKY, { retries: 1 }));
+    reporter.onSuiteEnd('Login', 1, 1, 1);
+    await reporter.generateReport();
+
+    expect(lines).toEqual([
+      "##teamcity[testSuiteStarted name='Login' flowId='Login']",
+      "##teamcity[flowStarted flowId='Login/logs in' parent='Login']",
+      "##teamcity[testStarted name='logs in' captureStandardOutput='false' flowId='Login/logs in']",
+      "##teamcity[testFinished name='logs in' duration='120' flowId='Login/logs in']",
+      "##teamcity[flowFinished flowId='Login/logs in']",
+      "##teamcity[flowStarted flowId='Login/rejects password' parent='Login']",
+      "##teamcity[testStarted name='rejects password' captureStandardOutput='false' flowId='Login/rejects password']",
+      "##teamcity[testFailed name='rejects password' message='expected |'a|'' details='Error: expected |'a|'|n    at login.ts:1:1' flowId='Login/rejects password']",
+      "##teamcity[testFinished name='rejects password' duration='100' flowId='Login/rejects password']",
+      "##teamcity[flowFinished flowId='Login/rejects password']",
+      "##teamcity[flowStarted flowId='Login/filtered' parent='Login']",
+      "##teamcity[testStarted name='filtered' captureStandardOutput='false' flowId='Login/filtered']",
+      "##teamcity[testIgnored name='filtered' message='tag filter' flowId='Login/filtered']",
+      "##teamcity[testFinished name='filtered' duration='100' flowId='Login/filtered']",
+      "##teamcity[flowFinished flowId='Login/filtered']",
+      "##teamcity[flowStarted flowId='Login/retries' parent='Login']",
+      "##teamcity[testStarted name='retries' captureStandardOutput='false' flowId='Login/retries']",
+      "##teamcity[message text='Test |'retries|' passed after 1 retries and is flaky' status='WARNING' flowId='Login/retries']",
+      "##teamcity[testFinished name='retries' duration='100' flowId='Login/retries']",
+      "##teamcity[flowFinished flowId='Login/retries']",
+      "##teamcity[testSuiteFinished name='Login' flowId='Login']",
+      "##teamcity[buildStatisticValue key='TestsTotal' value='4']",
+      "##teamcity[buildStatisticValue key='TestsPassed' value='1']",
+      "##teamcity[buildStatisticValue key='TestsFailed' value='1']",
+      "##teamcity[buildStatisticValue key='TestsSkipped' value='1']",
+      "##teamcity[buildStatisticValue key='TestsFlaky' value='1']",
+      "##teamcity[buildStatisticValue key='TestsQuarantined' value='0']",
+      "##teamcity[buildStatisticValue key='TestsDuration' value='420']"
+    ]);
+  });
+
+  test('не должен отмечать упавший тест на карантине как проваленный', async () => {
+    const lines: string[] = [];
+    const reporter = new TeamCityReporter({ write: line => lines.push(line) });
+
+    reporter.onTestEnd(failedResult('unstable', 'boom', { metadata: { quarantined: true } }));
+    await reporter.generateReport();
+
+    expect(lines.some(line => line.startsWith('##teamcity[testFailed'))).toBe(false);
+    expect(lines).toContain("##teamcity[testIgnored name='unstable' message='Quarantined test failed: boom' flowId='unstable']");
+    expect(lines).toContain("##teamcity[buildStatisticValue key='TestsFailed' value='0']");
+    expect(lines).toContain("##teamcity[buildStatisticValue key='TestsQuarantined' value='1']");
+  });
+
+  test('должен разделять сообщения одновременно выполняемых тестов по flowId', () => {
+    const lines: string[] = [];
+    const reporter = new TeamCityReporter({ write: line => lines.push(line) });
+
+    reporter.onTestStart('first');
+    reporter.onTestStart('second');
+    reporter.onTestEnd(testResult('second'));
+    reporter.onTestEnd(failedResult('first', 'boom'));
+
+    expect(lines.filter(line => line.includes("flowId='first'"))).toEqual([
+      "##teamcity[testStarted name='first' captureStandardOutput='false' flowId='first']",
+      "##teamcity[testFailed name='first' message='boom' details='Error: boom' flowId='first']",
+      "##teamcity[testFinished name='first' duration='100' flowId='first']"
+    ]);
+    expect(lines.filter(line => line.includes("flowId='second'"))).toHaveLength(2);
+  });
+
+  test('должен разделять одноимённые тесты разных наборов', () => {
+    const lines: string[] = [];
+    const reporter = new TeamCityReporter({ write: line => lines.push(line) });
+
+    for (const suite of ['Chromium', 'Firefox']) {
+      reporter.onSuiteStart(suite, 1);
+      reporter.onTestStart('logs in');
+      reporter.onTestEnd(testResult('logs in'));
+      reporter.onSuiteEnd(suite, 1, 0, 0);
+    }
+
+    expect(lines.filter(line => line.startsWith('##teamcity[flowStarted'))).toEqual([
+      "##teamcity[flowStarted flowId='Chromium/logs in' parent='Chromium']",
+      "##teamcity[flowStarted flowId='Firefox/logs in' parent='Firefox']"
+    ]);
+  });
+
+  test('должен открывать поток теста в его наборе, когда наборы выполняются одновременно', () => {
+    const lines: string[] = [];
+    const reporter = new TeamCityReporter({ write: line => lines.push(line) });
+
+    reporter.onSuiteStart('cart.spec.ts', 1);
+    reporter.onSuiteStart('login.spec.ts', 2);
+    reporter.onTestStart('adds item', 'cart.spec.ts');
+    reporter.onTestEnd(testResult('adds item'));
+    reporter.onTestEnd(testResult('logs out', TestStatus.SKIPPED, { metadata: { suite: 'login.spec.ts' } }));
+
+    expect(lines.filter(line => line.startsWith('##teamcity[flow'))).toEqual([
+      "##teamcity[flowStarted flowId='cart.spec.ts/adds item' parent='cart.spec.ts']",
+      "##teamcity[flowFinished flowId='cart.spec.ts/adds item']",
+      "##teamcity[flowStarted flowId='login.spec.ts/logs out' parent='login.spec.ts']",
+      "##teamcity[flowFinished flowId='login.spec.ts/logs out']"
+    ]);
+  });
+});
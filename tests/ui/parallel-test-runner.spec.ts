@@ -0,0 +1,163 @@
+import { test, expect } from '@playwright/test';
+import { ParallelTestRunner } from '../../src/ui/ParallelTestRunner';
+import { BaseReporter } from '../../src/core/BaseReporter';
+import { BaseTest } from '../../src/core/BaseTest';
+import { TestStatus } from '../../src/core/constants';
+import { TestResult } from '../../src/core/types';
+import { testResult } from '../helpers/results';
+
+test.describe('ParallelTestRunner', () => {
+  test('не должен повторять упавшие задачи по умолчанию, сохраняя историю попыток теста', async () => {
+    const runner = new ParallelTestRunner({ maxWorkers: 1, recordHistory: false, tagFilter: '' });
+    let runs = 0;
+    const attempts = [
+      { retry: 0, status: TestStatus.FAILED, duration: 5, startTime: new Date(), endTime: new Date(), attachments: [] },
+      { retry: 1, status: TestStatus.PASSED, duration: 5, startTime: new Date(), endTime: new Date(), attachments: [] }
+    ];
+
+    runner.addTask({
+      id: 'checkout',
+      name: 'checkout',
+      testFn: () => {
+        runs++;
+        return Promise.resolve(testResult('checkout', TestStatus.FLAKY, { retries: 1, attempts }));
+      }
+    });
+    runner.addTask({
+      id: 'login',
+      name: 'login',
+      testFn: () => {
+        runs++;
+        return Promise.resolve(testResult('login', TestStatus.FAILED, { error: new Error('boom') }));
+      }
+    });
+
+    const results = await runner.run();
+
+    expect(runs).toBe(2);
+    expect(results.map(item => [item.name, item.status])).toEqual([
+      ['checkout', TestStatus.FLAKY],
+      ['login', TestStatus.FAILED]
+    ]);
+    expect(results[0].attempts).toHaveLength(2);
+  });
+
+  test('должен повторять упавшие задачи, если повторы раннера включены', async () => {
+    const runner = new ParallelTestRunner({ maxWorkers: 1, recordHistory: false, tagFilter: '', retryFailedTests: true, maxRetries: 2 });
+    let runs = 0;
+
+    runner.addTask({
+      id: 'login',
+      name: 'login',
+      testFn: () => {
+        runs++;
+        return Promise.resolve(testResult('login', TestStatus.FAILED, { error: new Error('boom') }));
+      }
+    });
+
+    await runner.run();
+
+    expect(runs).toBe(3);
+  });
+
+  test('должен ограничивать задачу таймаутом раннера, если у неё нет собственного', async () => {
+    const runner = new ParallelTestRunner({ maxWorkers: 2, recordHistory: false, tagFilter: '', timeout: 50 });
+    const slow = (name: string) => (): Promise<TestResult> =>
+      new Promise(resolve => setTimeout(() => resolve(testResult(name, TestStatus.PASSED)), 200));
+
+    runner.addTask({ id: 'plain', name: 'plain', testFn: slow('plain') });
+    runner.addTask({ id: 'base-test', name: 'base-test', timeout: 0, testFn: slow('base-test') });
+
+    const results = await runner.run();
+
+    expect(results.find(item => item.name === 'plain')?.status).toBe(TestStatus.TIMED_OUT);
+    expect(results.find(item => item.name === 'base-test')?.status).toBe(TestStatus.PASSED);
+  });
+
+  test('не должен бросать по таймауту раннера задачу, которая выполняет BaseTest', async () => {
+    class CheckoutTest extends BaseTest {
+      async setup(): Promise<void> {
+        // No browser
+      }
+
+      async teardown(): Promise<void> {
+        // No browser
+      }
+
+      async executeTest(): Promise<void> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+      }
+    }
+    const runner = new ParallelTestRunner({ maxWorkers: 1, recordHistory: false, tagFilter: '', timeout: 50 });
+
+    runner.addTask({ id: 'checkout', name: 'checkout', testFn: () => new CheckoutTest().run() });
+
+    const [result] = await runner.run();
+
+    expect(result).toMatchObject({ name: 'CheckoutTest', status: TestStatus.PASSED });
+  });
+
+  test('должен передавать начало и результат каждой задачи репортеру и формировать отчёт', async () => {
+    const calls: string[] = [];
+    const reporter = new (class extends BaseReporter {
+      onTestStart(testName: string): void {
+        calls.push(`start:${testName}`);
+      }
+
+      onTestEnd(result: TestResult): void {
+        super.onTestEnd(result);
+        calls.push(`end:${result.name}:${result.status}`);
+      }
+
+      generateReport(): Promise<void> {
+        calls.push('report');
+        return Promise.resolve();
+      }
+    })();
+    const runner = new ParallelTestRunner({ maxWorkers: 1, recordHistory: false, tagFilter: '@smoke', reporter });
+
+    runner.addTask({ id: 'login', name: 'login', tags: ['smoke'], testFn: () => Promise.resolve(testResult('login', TestStatus.PASSED)) });
+    runner.addTask({ id: 'search', name: 'search', tags: ['slow'], testFn: () => Promise.resolve(testResult('search', TestStatus.PASSED)) });
+
+    await runner.run();
+
+    expect(calls).toEqual([`end:search:${TestStatus.SKIPPED}`, 'start:login', `end:login:${TestStatus.PASSED}`, 'report']);
+  });
+
+  test('должен пропускать задачи, не подходящие под выражение тегов, не запуская их', async () => {
+    const runner = new ParallelTestRunner({ maxWorkers: 1, recordHistory: false, tagFilter: '@smoke&&!@slow' });
+    const skipped: string[] = [];
+    const ran: string[] = [];
+    runner.on('task:skip', ({ task }: { task: { name: string } }) => skipped.push(task.name));
+
+    for (const [name, tags] of [['login', ['smoke']], ['search', ['smoke', 'slow']], ['profile', undefined]] as Array<[string, string[] | undefined]>) {
+      runner.addTask({
+        id: name,
+        name,
+        tags,
+        testFn: () => {
+          ran.push(name);
+          return Promise.resolve(testResult(name, TestStatus.PASSED));
+        }
+      });
+    }
+
+    const results = await runner.run();
+
+    expect(ran).toEqual(['login']);
+    expect(skipped).toEqual(['search', 'profile']);
+    expect(results.find(item => item.name === 'search')).toMatchObject({
+      status: TestStatus.SKIPPED,
+      duration: 0,
+      metadata: { skipReason: 'Excluded by tag expression "@smoke&&!@slow"', tags: ['smoke', 'slow'] }
+    });
+    expect(results.find(item => item.name === 'profile')!.metadata!.tags).toEqual([]);
+  });
+
+  test('должен отклонять запуск с некорректным выражением тегов', async () => {
+    const runner = new ParallelTestRunner({ maxWorkers: 1, recordHistory: false, tagFilter: '@smoke & @fast' });
+    runner.addTask({ id: 'login', name: 'login', testFn: () => Promise.resolve(testResult('login', TestStatus.PASSED)) });
+
+    await expect(runner.run()).rejects.toThrow('Unknown operator "&"');
+  });
+});